@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "murmurs" ADD COLUMN     "quoteOfId" TEXT,
+ADD COLUMN     "remurmurOfId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "murmurs_userId_remurmurOfId_key" ON "murmurs"("userId", "remurmurOfId");
+
+-- AddForeignKey
+ALTER TABLE "murmurs" ADD CONSTRAINT "murmurs_remurmurOfId_fkey" FOREIGN KEY ("remurmurOfId") REFERENCES "murmurs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "murmurs" ADD CONSTRAINT "murmurs_quoteOfId_fkey" FOREIGN KEY ("quoteOfId") REFERENCES "murmurs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "murmurs" ADD COLUMN     "editCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "editedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "murmur_revisions" (
+    "id" TEXT NOT NULL,
+    "murmurId" TEXT NOT NULL,
+    "content" VARCHAR(280) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "murmur_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "murmur_revisions_murmurId_createdAt_idx" ON "murmur_revisions"("murmurId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "murmur_revisions" ADD CONSTRAINT "murmur_revisions_murmurId_fkey" FOREIGN KEY ("murmurId") REFERENCES "murmurs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
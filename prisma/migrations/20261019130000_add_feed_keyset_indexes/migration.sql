@@ -0,0 +1,11 @@
+-- CreateIndex
+CREATE INDEX "murmurs_createdAt_id_idx" ON "murmurs"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "murmurs_userId_createdAt_idx" ON "murmurs"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "murmurs_replyToId_createdAt_idx" ON "murmurs"("replyToId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "likes_userId_createdAt_idx" ON "likes"("userId", "createdAt");
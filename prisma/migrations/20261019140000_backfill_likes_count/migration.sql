@@ -0,0 +1,5 @@
+-- Feeds now read the stored counter instead of counting likes per murmur,
+-- so bring it in line with the likes table
+UPDATE "murmurs" m SET "likesCount" = (
+    SELECT COUNT(*) FROM "likes" l WHERE l."murmurId" = m."id"
+);
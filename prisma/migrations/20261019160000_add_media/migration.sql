@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "media" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "murmurId" TEXT,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "mimeType" VARCHAR(100) NOT NULL,
+    "size" INTEGER NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "altText" VARCHAR(1000),
+    "storageKey" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "media_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_storageKey_key" ON "media"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "media_murmurId_position_idx" ON "media"("murmurId", "position");
+
+-- CreateIndex
+CREATE INDEX "media_userId_createdAt_idx" ON "media"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "media" ADD CONSTRAINT "media_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "media" ADD CONSTRAINT "media_murmurId_fkey" FOREIGN KEY ("murmurId") REFERENCES "murmurs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
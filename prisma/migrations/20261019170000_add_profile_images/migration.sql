@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "avatarKey" VARCHAR(255),
+ADD COLUMN     "banner" VARCHAR(500),
+ADD COLUMN     "bannerKey" VARCHAR(255);
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "hashtags" (
+    "id" TEXT NOT NULL,
+    "tag" VARCHAR(100) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hashtags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "murmur_hashtags" (
+    "murmurId" TEXT NOT NULL,
+    "hashtagId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "murmur_hashtags_pkey" PRIMARY KEY ("murmurId","hashtagId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hashtags_tag_key" ON "hashtags"("tag");
+
+-- CreateIndex
+CREATE INDEX "murmur_hashtags_hashtagId_createdAt_idx" ON "murmur_hashtags"("hashtagId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "murmur_hashtags_createdAt_idx" ON "murmur_hashtags"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "murmur_hashtags" ADD CONSTRAINT "murmur_hashtags_murmurId_fkey" FOREIGN KEY ("murmurId") REFERENCES "murmurs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "murmur_hashtags" ADD CONSTRAINT "murmur_hashtags_hashtagId_fkey" FOREIGN KEY ("hashtagId") REFERENCES "hashtags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill tags from existing murmurs (same rules as extractHashtags)
+CREATE TEMP TABLE "_murmur_tags" AS
+SELECT DISTINCT m."id" AS "murmurId", lower(match[1]) AS "tag", m."createdAt"
+FROM "murmurs" m
+CROSS JOIN LATERAL regexp_matches(m."content", '(?:^|[^[:alnum:]_&])#([[:alnum:]_]*[[:alpha:]_][[:alnum:]_]*)', 'g') AS match
+WHERE m."isDeleted" = false
+  AND length(match[1]) <= 100;
+
+INSERT INTO "hashtags" ("id", "tag", "createdAt")
+SELECT gen_random_uuid()::text, "tag", min("createdAt")
+FROM "_murmur_tags"
+GROUP BY "tag"
+ON CONFLICT ("tag") DO NOTHING;
+
+INSERT INTO "murmur_hashtags" ("murmurId", "hashtagId", "createdAt")
+SELECT t."murmurId", h."id", t."createdAt"
+FROM "_murmur_tags" t
+JOIN "hashtags" h ON h."tag" = t."tag"
+ON CONFLICT DO NOTHING;
+
+DROP TABLE "_murmur_tags";
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "mentions" (
+    "id" TEXT NOT NULL,
+    "murmurId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "start" INTEGER NOT NULL,
+    "end" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mentions_userId_createdAt_idx" ON "mentions"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mentions_murmurId_start_key" ON "mentions"("murmurId", "start");
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_murmurId_fkey" FOREIGN KEY ("murmurId") REFERENCES "murmurs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mentions" ADD CONSTRAINT "mentions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
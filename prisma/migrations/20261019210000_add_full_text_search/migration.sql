@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "murmurs" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce("content", ''))) STORED;
+
+-- AlterTable: usernames weigh more than display names
+ALTER TABLE "users" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', coalesce("username", '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce("displayName", '')), 'B')
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "murmurs_searchVector_idx" ON "murmurs" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "users_searchVector_idx" ON "users" USING GIN ("searchVector");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "murmurs" ADD COLUMN     "trendingScore" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "murmurs_trendingScore_idx" ON "murmurs"("trendingScore");
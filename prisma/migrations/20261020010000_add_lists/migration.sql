@@ -0,0 +1,71 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "notifyListAdds" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "listId" TEXT;
+
+-- CreateTable
+CREATE TABLE "lists" (
+    "id" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "name" VARCHAR(50) NOT NULL,
+    "description" VARCHAR(160),
+    "isPrivate" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "list_members" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "list_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "list_subscriptions" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "list_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "lists_ownerId_createdAt_idx" ON "lists"("ownerId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "list_members_listId_userId_key" ON "list_members"("listId", "userId");
+
+-- CreateIndex
+CREATE INDEX "list_members_userId_idx" ON "list_members"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "list_subscriptions_listId_userId_key" ON "list_subscriptions"("listId", "userId");
+
+-- CreateIndex
+CREATE INDEX "list_subscriptions_userId_createdAt_idx" ON "list_subscriptions"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_listId_fkey" FOREIGN KEY ("listId") REFERENCES "lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "lists" ADD CONSTRAINT "lists_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "list_members" ADD CONSTRAINT "list_members_listId_fkey" FOREIGN KEY ("listId") REFERENCES "lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "list_members" ADD CONSTRAINT "list_members_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "list_subscriptions" ADD CONSTRAINT "list_subscriptions_listId_fkey" FOREIGN KEY ("listId") REFERENCES "lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "list_subscriptions" ADD CONSTRAINT "list_subscriptions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "polls" (
+    "id" TEXT NOT NULL,
+    "murmurId" TEXT NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "votesCount" INTEGER NOT NULL DEFAULT 0,
+    "endNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "polls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_options" (
+    "id" TEXT NOT NULL,
+    "pollId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "text" VARCHAR(25) NOT NULL,
+    "votesCount" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "poll_options_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "poll_votes" (
+    "id" TEXT NOT NULL,
+    "pollId" TEXT NOT NULL,
+    "optionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "poll_votes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "polls_murmurId_key" ON "polls"("murmurId");
+
+-- CreateIndex
+CREATE INDEX "polls_endNotifiedAt_endsAt_idx" ON "polls"("endNotifiedAt", "endsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poll_options_pollId_position_key" ON "poll_options"("pollId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "poll_votes_pollId_userId_key" ON "poll_votes"("pollId", "userId");
+
+-- CreateIndex
+CREATE INDEX "poll_votes_userId_idx" ON "poll_votes"("userId");
+
+-- AddForeignKey
+ALTER TABLE "polls" ADD CONSTRAINT "polls_murmurId_fkey" FOREIGN KEY ("murmurId") REFERENCES "murmurs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_options" ADD CONSTRAINT "poll_options_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "polls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_optionId_fkey" FOREIGN KEY ("optionId") REFERENCES "poll_options"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "drafts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "content" VARCHAR(280) NOT NULL DEFAULT '',
+    "replyToId" TEXT,
+    "mediaIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "poll" JSONB,
+    "publishAt" TIMESTAMP(3),
+    "publishAttempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "lastError" VARCHAR(500),
+    "failedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "drafts_userId_updatedAt_idx" ON "drafts"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "drafts_publishAt_idx" ON "drafts"("publishAt");
+
+-- AddForeignKey
+ALTER TABLE "drafts" ADD CONSTRAINT "drafts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "drafts" ADD CONSTRAINT "drafts_replyToId_fkey" FOREIGN KEY ("replyToId") REFERENCES "murmurs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN "moderationCaseId" TEXT;
+
+-- CreateTable
+CREATE TABLE "moderation_cases" (
+    "id" TEXT NOT NULL,
+    "targetType" VARCHAR(10) NOT NULL,
+    "murmurId" TEXT,
+    "targetUserId" TEXT NOT NULL,
+    "openKey" TEXT,
+    "status" VARCHAR(10) NOT NULL DEFAULT 'open',
+    "action" VARCHAR(20),
+    "resolutionNote" VARCHAR(500),
+    "reportsCount" INTEGER NOT NULL DEFAULT 0,
+    "resolvedById" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "moderation_cases_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reports" (
+    "id" TEXT NOT NULL,
+    "caseId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" VARCHAR(20) NOT NULL,
+    "details" VARCHAR(500),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "moderation_cases_openKey_key" ON "moderation_cases"("openKey");
+
+-- CreateIndex
+CREATE INDEX "moderation_cases_status_reportsCount_idx" ON "moderation_cases"("status", "reportsCount");
+
+-- CreateIndex
+CREATE INDEX "moderation_cases_targetUserId_idx" ON "moderation_cases"("targetUserId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reports_caseId_reporterId_key" ON "reports"("caseId", "reporterId");
+
+-- CreateIndex
+CREATE INDEX "reports_reporterId_idx" ON "reports"("reporterId");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_moderationCaseId_fkey" FOREIGN KEY ("moderationCaseId") REFERENCES "moderation_cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_cases" ADD CONSTRAINT "moderation_cases_murmurId_fkey" FOREIGN KEY ("murmurId") REFERENCES "murmurs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_cases" ADD CONSTRAINT "moderation_cases_targetUserId_fkey" FOREIGN KEY ("targetUserId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "moderation_cases" ADD CONSTRAINT "moderation_cases_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_caseId_fkey" FOREIGN KEY ("caseId") REFERENCES "moderation_cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reports" ADD CONSTRAINT "reports_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
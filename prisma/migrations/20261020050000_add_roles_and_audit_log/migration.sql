@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('user', 'moderator', 'admin');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "role" "UserRole" NOT NULL DEFAULT 'user';
+
+-- CreateTable
+CREATE TABLE "audit_log" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT,
+    "action" VARCHAR(40) NOT NULL,
+    "targetType" VARCHAR(20) NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "details" JSONB,
+    "ipAddress" VARCHAR(45),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_log_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_log_createdAt_idx" ON "audit_log"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_log_actorId_createdAt_idx" ON "audit_log"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_log_targetType_targetId_idx" ON "audit_log"("targetType", "targetId");
+
+-- AddForeignKey
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "deactivatedAt" TIMESTAMP(3),
+ADD COLUMN "deletionScheduledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_deletionScheduledAt_idx" ON "users"("deletionScheduledAt");
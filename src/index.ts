@@ -11,6 +11,16 @@ import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import murmurRoutes from './routes/murmurs';
 import notificationRoutes from './routes/notifications';
+import mediaRoutes from './routes/media';
+import hashtagRoutes from './routes/hashtags';
+import bookmarkRoutes from './routes/bookmarks';
+import conversationRoutes from './routes/conversations';
+import listRoutes from './routes/lists';
+import draftRoutes from './routes/drafts';
+import moderationRoutes from './routes/moderation';
+import adminRoutes from './routes/admin';
+import { getStorage, LocalDiskStorage } from './lib/storage';
+import { startJobs, stopJobs } from './jobs';
 
 // Load environment variables
 dotenv.config();
@@ -52,6 +62,8 @@ app.use(cors({
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
+// Event streams may carry the access token in the query string; keep it out of the logs
+morgan.token('url', (req: express.Request) => (req.originalUrl || req.url).replace(/([?&]access_token=)[^&]*/g, '$1[redacted]'));
 app.use(morgan('combined')); // Logging
 app.use(limiter); // Rate limiting
 app.use(express.json({ limit: '10mb' })); // Parse JSON bodies
@@ -81,6 +93,24 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/murmurs', murmurRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/media', mediaRoutes);
+app.use('/api/hashtags', hashtagRoutes);
+app.use('/api/bookmarks', bookmarkRoutes);
+app.use('/api/conversations', conversationRoutes);
+app.use('/api/lists', listRoutes);
+app.use('/api/drafts', draftRoutes);
+app.use('/api/moderation', moderationRoutes);
+app.use('/api/admin', adminRoutes);
+
+// Serve uploads when they are kept on local disk
+const storage = getStorage();
+if (storage instanceof LocalDiskStorage) {
+  app.use(storage.publicPath, (req, res, next) => {
+    // Let web clients on other origins embed the files
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    next();
+  }, express.static(storage.rootDir));
+}
 
 // 404 handler
 app.use((req, res) => {
@@ -147,17 +177,27 @@ app.use((error: any, req: express.Request, res: express.Response, next: express.
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
   console.log(`Health check available at http://localhost:${PORT}/health`);
+
+  // Moderators used to be configured here; they now need the moderator role
+  if (process.env.MODERATOR_USER_IDS) {
+    console.warn('MODERATOR_USER_IDS is no longer used. Give those users the moderator role instead (see README).');
+  }
+
+  // Background jobs (trending scores, ...)
+  startJobs();
 });
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Received SIGINT, shutting down gracefully...');
+  stopJobs();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('Received SIGTERM, shutting down gracefully...');
+  stopJobs();
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -0,0 +1,38 @@
+import MurmurService from '../models/Murmur';
+import PollService from '../models/Poll';
+import DraftService from '../models/Draft';
+import AccountDeletionService from '../models/AccountDeletion';
+import { schedule, stopAll } from './scheduler';
+
+const minutes = (value: string | undefined, fallback: number): number => {
+  return (parseFloat(value || '') || fallback) * 60 * 1000;
+};
+
+// Start all background jobs
+export const startJobs = (): void => {
+  schedule({
+    name: 'trending-scores',
+    intervalMs: minutes(process.env.TRENDING_INTERVAL_MINUTES, 5),
+    run: () => MurmurService.recalculateTrendingScores(),
+  });
+
+  schedule({
+    name: 'poll-endings',
+    intervalMs: minutes(process.env.POLL_ENDINGS_INTERVAL_MINUTES, 1),
+    run: () => PollService.notifyEndedPolls(),
+  });
+
+  schedule({
+    name: 'scheduled-drafts',
+    intervalMs: minutes(process.env.DRAFTS_PUBLISH_INTERVAL_MINUTES, 1),
+    run: () => DraftService.publishDueDrafts(),
+  });
+
+  schedule({
+    name: 'account-purge',
+    intervalMs: minutes(process.env.ACCOUNT_PURGE_INTERVAL_MINUTES, 60),
+    run: () => AccountDeletionService.purgeDueAccounts(),
+  });
+};
+
+export const stopJobs = stopAll;
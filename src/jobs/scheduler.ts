@@ -0,0 +1,37 @@
+// Minimal in-process scheduler for background jobs. A run that is still going
+// when the next tick comes is not started twice; the tick is skipped instead.
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const timers: NodeJS.Timeout[] = [];
+
+const runJob = async (job: ScheduledJob, state: { running: boolean }): Promise<void> => {
+  if (state.running) return;
+
+  state.running = true;
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`Job ${job.name} failed:`, error);
+  } finally {
+    state.running = false;
+  }
+};
+
+// Run a job now and then every intervalMs
+export const schedule = (job: ScheduledJob): void => {
+  const state = { running: false };
+
+  void runJob(job, state);
+  const timer = setInterval(() => void runJob(job, state), job.intervalMs);
+  // Don't keep the process alive just for background jobs
+  timer.unref();
+  timers.push(timer);
+};
+
+export const stopAll = (): void => {
+  timers.splice(0).forEach(timer => clearInterval(timer));
+};
@@ -0,0 +1,29 @@
+import { getMailer } from './mailer';
+
+// Links in emails point at the client app, which posts the token back to the API
+const appUrl = () => process.env.APP_URL || process.env.FRONTEND_URL || 'http://localhost:19006';
+
+type Recipient = {
+  email: string;
+  displayName: string;
+};
+
+export const sendVerificationEmail = async (user: Recipient, token: string): Promise<void> => {
+  const link = `${appUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Verify your Murmur email address',
+    text: `Hi ${user.displayName},\n\nConfirm your email address to start posting on Murmur:\n${link}\n\nThis link expires in 24 hours.`,
+  });
+};
+
+export const sendPasswordResetEmail = async (user: Recipient, token: string): Promise<void> => {
+  const link = `${appUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await getMailer().send({
+    to: user.email,
+    subject: 'Reset your Murmur password',
+    text: `Hi ${user.displayName},\n\nSomeone asked to reset your Murmur password. If it was you, choose a new one here:\n${link}\n\nThis link expires in 1 hour. If you didn't ask for this, you can ignore this email.`,
+  });
+};
@@ -0,0 +1,45 @@
+export const MAX_HASHTAG_LENGTH = 100;
+
+// A hashtag is '#' followed by letters, digits or underscores, with at least one
+// non-digit (#2024 is not a tag). It must not be glued to a preceding word or an
+// HTML entity (foo#bar, &#39;).
+const HASHTAG_PATTERN = /(?:^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]*[\p{L}_][\p{L}\p{N}_]*)/gu;
+
+// Tags are matched case-insensitively, so they are stored in one canonical form
+export const normalizeHashtag = (tag: string): string => {
+  return tag.replace(/^#/, '').normalize('NFC').toLowerCase();
+};
+
+// Unique, normalized hashtags in order of first appearance
+export const extractHashtags = (content: string): string[] => {
+  const tags = new Set<string>();
+
+  for (const match of content.matchAll(HASHTAG_PATTERN)) {
+    const tag = normalizeHashtag(match[1]!);
+    if (tag.length <= MAX_HASHTAG_LENGTH) {
+      tags.add(tag);
+    }
+  }
+
+  return [...tags];
+};
+
+export interface MentionEntity {
+  username: string;
+  // UTF-16 offsets into the content, as used by JavaScript string indexing; end is exclusive
+  start: number;
+  end: number;
+}
+
+// '@' followed by a valid username, not preceded by a word character (so email
+// addresses don't match) and not running into a longer word
+const MENTION_PATTERN = /(?<![\p{L}\p{N}_@])@([a-zA-Z0-9_]{3,30})(?![\p{L}\p{N}_@])/gu;
+
+// Every @username in the content with its position; the '@' is included in the range
+export const extractMentions = (content: string): MentionEntity[] => {
+  return [...content.matchAll(MENTION_PATTERN)].map(match => ({
+    username: match[1]!,
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+};
@@ -0,0 +1,63 @@
+import { EventEmitter } from 'events';
+
+export interface RealtimeEvent {
+  type: string;
+  data: unknown;
+}
+
+export type EventHandler = (event: RealtimeEvent) => void;
+
+// Pub/sub contract used by the real-time stream. The default implementation only
+// reaches clients connected to this process; a multi-instance deployment can plug
+// in a broker-backed bus (Redis, NATS, ...) through setEventBus.
+export interface EventBus {
+  publish(channel: string, event: RealtimeEvent): void;
+  subscribe(channel: string, handler: EventHandler): () => void;
+}
+
+export class InProcessEventBus implements EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Every open stream adds listeners, so the default cap of 10 does not apply
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(channel: string, event: RealtimeEvent): void {
+    this.emitter.emit(channel, event);
+  }
+
+  subscribe(channel: string, handler: EventHandler): () => void {
+    this.emitter.on(channel, handler);
+    return () => {
+      this.emitter.off(channel, handler);
+    };
+  }
+}
+
+let eventBus: EventBus = new InProcessEventBus();
+
+export const getEventBus = (): EventBus => eventBus;
+
+export const setEventBus = (bus: EventBus): void => {
+  eventBus = bus;
+};
+
+export const channels = {
+  // Events addressed to a single user
+  user: (userId: string) => `user:${userId}`,
+  // Public murmur changes (like/reply/remurmur counts); events carry the author's userId
+  murmurs: 'murmurs',
+};
+
+export const publishToUser = (userId: string, type: string, data: unknown): void => {
+  eventBus.publish(channels.user(userId), { type, data });
+};
+
+export const publishToUsers = (userIds: string[], type: string, data: unknown): void => {
+  userIds.forEach(userId => publishToUser(userId, type, data));
+};
+
+export const publishMurmurEvent = (type: string, data: unknown): void => {
+  eventBus.publish(channels.murmurs, { type, data });
+};
@@ -0,0 +1,70 @@
+import sharp from 'sharp';
+import { getStorage } from './storage';
+
+export type ProfileImageKind = 'avatar' | 'banner';
+
+interface ImageVariant {
+  name: string;
+  width: number;
+  height: number;
+}
+
+// Standard sizes stored for each profile image, largest last
+export const PROFILE_IMAGE_VARIANTS: Record<ProfileImageKind, ImageVariant[]> = {
+  avatar: [
+    { name: 'small', width: 64, height: 64 },
+    { name: 'medium', width: 200, height: 200 },
+    { name: 'large', width: 400, height: 400 },
+  ],
+  banner: [
+    { name: 'small', width: 600, height: 200 },
+    { name: 'large', width: 1500, height: 500 },
+  ],
+};
+
+// Apply the EXIF orientation, crop to each variant's aspect ratio around the most
+// interesting region and re-encode as WebP. Re-encoding drops EXIF and all other metadata.
+export const renderProfileImage = async (
+  data: Buffer,
+  kind: ProfileImageKind
+): Promise<{ name: string; data: Buffer }[]> => {
+  return await Promise.all(PROFILE_IMAGE_VARIANTS[kind].map(async variant => ({
+    name: variant.name,
+    data: await sharp(data)
+      .rotate()
+      .resize(variant.width, variant.height, { fit: 'cover', position: sharp.strategy.attention })
+      .webp({ quality: 85 })
+      .toBuffer(),
+  })));
+};
+
+const variantKey = (prefix: string, name: string): string => `${prefix}/${name}.webp`;
+
+// Store rendered variants under a storage key prefix
+export const storeProfileImage = async (
+  prefix: string,
+  variants: { name: string; data: Buffer }[]
+): Promise<void> => {
+  const storage = getStorage();
+  await Promise.all(variants.map(variant => storage.put(variantKey(prefix, variant.name), variant.data, 'image/webp')));
+};
+
+// Remove every stored variant of a profile image
+export const deleteProfileImage = async (kind: ProfileImageKind, prefix: string): Promise<void> => {
+  const storage = getStorage();
+  await Promise.all(PROFILE_IMAGE_VARIANTS[kind].map(variant => storage.delete(variantKey(prefix, variant.name))));
+};
+
+// Public URL of each variant, keyed by variant name
+export const profileImageUrls = (kind: ProfileImageKind, prefix: string): Record<string, string> => {
+  const storage = getStorage();
+  return Object.fromEntries(
+    PROFILE_IMAGE_VARIANTS[kind].map(variant => [variant.name, storage.getUrl(variantKey(prefix, variant.name))])
+  );
+};
+
+// URL stored on the user record: the largest variant
+export const primaryProfileImageUrl = (kind: ProfileImageKind, prefix: string): string => {
+  const variants = PROFILE_IMAGE_VARIANTS[kind];
+  return getStorage().getUrl(variantKey(prefix, variants[variants.length - 1]!.name));
+};
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Transport-agnostic mail sending; swap in an SMTP or API-backed mailer with setMailer
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Logs messages to stdout. Bodies carry sign-in links and tokens, so they are
+// only logged when asked for (local development).
+export class ConsoleMailer implements Mailer {
+  constructor(private readonly includeBody: boolean = false) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const header = `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}`;
+    console.log(this.includeBody ? `${header}\n${message.text}` : header);
+  }
+}
+
+// Writes each message as a JSON file (tests and local inspection)
+export class FileMailer implements Mailer {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+    const payload = {
+      from: process.env.MAIL_FROM || 'Murmur <no-reply@murmur.app>',
+      ...message,
+      sentAt: new Date().toISOString(),
+    };
+
+    await fs.writeFile(path.join(this.outboxDir, fileName), JSON.stringify(payload, null, 2));
+  }
+}
+
+const createMailer = (): Mailer => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileMailer(process.env.MAIL_OUTBOX_DIR || 'mail-outbox');
+    case 'console':
+      return new ConsoleMailer(process.env.NODE_ENV !== 'production');
+    default:
+      return new ConsoleMailer();
+  }
+};
+
+let mailer: Mailer = createMailer();
+
+export const getMailer = (): Mailer => mailer;
+
+export const setMailer = (nextMailer: Mailer): void => {
+  mailer = nextMailer;
+};
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+};
+
+export interface MediaDimensions {
+  width: number | null;
+  height: number | null;
+}
+
+// Read an image's dimensions, which also confirms the upload really is an image.
+// Returns null when the data cannot be decoded.
+export const probeImage = async (data: Buffer): Promise<MediaDimensions | null> => {
+  try {
+    const metadata = await sharp(data).metadata();
+    if (!metadata.width || !metadata.height) return null;
+
+    // Orientations 5-8 are stored rotated by 90 degrees
+    const rotated = (metadata.orientation ?? 1) >= 5;
+    return {
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Unguessable storage key, grouped by owner
+export const buildStorageKey = (prefix: string, userId: string, mimeType: string): string => {
+  const extension = EXTENSIONS[mimeType] || 'bin';
+  return `${prefix}/${userId}/${crypto.randomBytes(16).toString('hex')}.${extension}`;
+};
@@ -0,0 +1,143 @@
+import express from 'express';
+import { query } from 'express-validator';
+
+// Options accepted by paginated feed queries. A cursor takes precedence over offset.
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+  cursor?: string | undefined;
+  includeTotal?: boolean;
+}
+
+export interface PageInfo {
+  hasMore: boolean;
+  nextCursor: string | null;
+  totalCount?: number;
+}
+
+export interface PaginationParams {
+  page: number;
+  limit: number;
+  offset: number;
+  cursor: string | undefined;
+  includeTotal: boolean;
+}
+
+// Cursors are opaque to clients: base64url-encoded JSON
+export const encodeCursor = (payload: object): string => {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+export const decodeCursor = <T extends object>(cursor: string): T | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return payload && typeof payload === 'object' ? payload as T : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Keyset cursor over (createdAt, id), for feeds ordered newest first
+export const encodeTimeCursor = (row: { createdAt: Date; id: string }): string => {
+  return encodeCursor({ createdAt: row.createdAt.toISOString(), id: row.id });
+};
+
+export const decodeTimeCursor = (cursor: string): { createdAt: Date; id: string } | null => {
+  const payload = decodeCursor<{ createdAt?: unknown; id?: unknown }>(cursor);
+  if (!payload || typeof payload.createdAt !== 'string' || typeof payload.id !== 'string') {
+    return null;
+  }
+
+  const createdAt = new Date(payload.createdAt);
+  return isNaN(createdAt.getTime()) ? null : { createdAt, id: payload.id };
+};
+
+// Prisma filter for rows strictly after the cursor in (createdAt desc, id desc) order
+export const timeCursorWhere = (cursor: string) => {
+  const position = decodeTimeCursor(cursor);
+  if (!position) {
+    throw new Error('Invalid cursor');
+  }
+
+  return {
+    OR: [
+      { createdAt: { lt: position.createdAt } },
+      { createdAt: position.createdAt, id: { lt: position.id } },
+    ],
+  };
+};
+
+// Trim the extra row fetched to detect another page and build the next cursor
+export const toPage = <T extends { createdAt: Date; id: string }>(rows: T[], limit: number): {
+  items: T[];
+  hasMore: boolean;
+  nextCursor: string | null;
+} => {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeTimeCursor(last) : null,
+  };
+};
+
+export const paginationValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+  query('cursor')
+    .optional()
+    .isString()
+    .custom((cursor: string) => decodeTimeCursor(cursor) !== null)
+    .withMessage('Invalid cursor'),
+  query('includeTotal')
+    .optional()
+    .isBoolean()
+    .withMessage('includeTotal must be a boolean'),
+];
+
+// Page-based requests (old clients) get the total count by default; cursor-based
+// requests only when asked for it, since counting is the expensive part
+export const getPaginationParams = (req: express.Request, defaultLimit: number = 10): PaginationParams => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = parseInt(req.query.limit as string) || defaultLimit;
+  const cursor = req.query.cursor as string | undefined;
+  const includeTotal = cursor
+    ? req.query.includeTotal === 'true'
+    : req.query.includeTotal !== 'false';
+
+  return {
+    page,
+    limit,
+    offset: cursor ? 0 : (page - 1) * limit,
+    cursor,
+    includeTotal,
+  };
+};
+
+export const toPageOptions = (params: PaginationParams): PageOptions => ({
+  limit: params.limit,
+  offset: params.offset,
+  cursor: params.cursor,
+  includeTotal: params.includeTotal,
+});
+
+export const buildPagination = (params: PaginationParams, info: PageInfo) => ({
+  ...(!params.cursor && { page: params.page }),
+  limit: params.limit,
+  ...(info.totalCount !== undefined && {
+    totalCount: info.totalCount,
+    totalPages: Math.ceil(info.totalCount / params.limit),
+  }),
+  hasNextPage: info.hasMore,
+  ...(!params.cursor && { hasPreviousPage: params.page > 1 }),
+  nextCursor: info.nextCursor,
+});
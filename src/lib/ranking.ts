@@ -0,0 +1,116 @@
+// Weights for the ranked "For You" feed. Defaults can be overridden with a JSON
+// object in FOR_YOU_WEIGHTS, e.g. FOR_YOU_WEIGHTS='{"affinity":2,"halfLifeHours":12}'.
+export interface ForYouWeights {
+  // Score every candidate starts from before the recency decay
+  base: number;
+  // Multipliers for each signal
+  engagement: number;
+  affinity: number;
+  following: number;
+  trending: number;
+  // How much each kind of engagement counts towards the engagement signal
+  likes: number;
+  replies: number;
+  remurmurs: number;
+  // Age at which a murmur's score has halved
+  halfLifeHours: number;
+}
+
+export const DEFAULT_FOR_YOU_WEIGHTS: ForYouWeights = {
+  base: 1,
+  engagement: 1,
+  affinity: 1.5,
+  following: 1,
+  trending: 0.5,
+  likes: 1,
+  replies: 2,
+  remurmurs: 2,
+  halfLifeHours: 6,
+};
+
+const loadWeights = (): ForYouWeights => {
+  if (!process.env.FOR_YOU_WEIGHTS) return DEFAULT_FOR_YOU_WEIGHTS;
+
+  try {
+    const overrides = JSON.parse(process.env.FOR_YOU_WEIGHTS);
+    const weights = { ...DEFAULT_FOR_YOU_WEIGHTS };
+
+    (Object.keys(DEFAULT_FOR_YOU_WEIGHTS) as (keyof ForYouWeights)[]).forEach(key => {
+      if (typeof overrides[key] !== 'number' || !Number.isFinite(overrides[key])) return;
+
+      // A half-life of zero or less would make every score NaN
+      if (key === 'halfLifeHours' && overrides[key] <= 0) {
+        console.error('Invalid FOR_YOU_WEIGHTS halfLifeHours, must be positive; using the default');
+        return;
+      }
+
+      weights[key] = overrides[key];
+    });
+
+    return weights;
+  } catch (error) {
+    console.error('Invalid FOR_YOU_WEIGHTS, using defaults:', error);
+    return DEFAULT_FOR_YOU_WEIGHTS;
+  }
+};
+
+export const forYouWeights: ForYouWeights = loadWeights();
+
+export interface RankingSignals {
+  ageHours: number;
+  likesCount: number;
+  repliesCount: number;
+  retweetsCount: number;
+  // Weighted count of the viewer's recent interactions with the author
+  interactions: number;
+  isFollowing: boolean;
+  isTrending: boolean;
+}
+
+// How a score was put together, for tuning the weights
+export interface ScoreExplanation {
+  score: number;
+  recency: number;
+  engagement: number;
+  affinity: number;
+  following: number;
+  trending: number;
+}
+
+// score = recency decay x (base + weighted signals). Engagement and affinity are
+// log-scaled so a single viral post or one very chatty author can't swamp the feed.
+export const scoreCandidate = (signals: RankingSignals, weights: ForYouWeights = forYouWeights): ScoreExplanation => {
+  const recency = Math.pow(0.5, Math.max(signals.ageHours, 0) / weights.halfLifeHours);
+  const engagement = weights.engagement * Math.log1p(
+    weights.likes * signals.likesCount
+    + weights.replies * signals.repliesCount
+    + weights.remurmurs * signals.retweetsCount
+  );
+  const affinity = weights.affinity * Math.log1p(signals.interactions);
+  const following = signals.isFollowing ? weights.following : 0;
+  const trending = signals.isTrending ? weights.trending : 0;
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+
+  return {
+    score: round(recency * (weights.base + engagement + affinity + following + trending)),
+    recency: round(recency),
+    engagement: round(engagement),
+    affinity: round(affinity),
+    following: round(following),
+    trending: round(trending),
+  };
+};
+
+// Trending uses a gravity score: weighted engagement / (age in hours + 2) ^ gravity.
+// Higher gravity makes old murmurs fall off faster.
+export const TRENDING_GRAVITY = parseFloat(process.env.TRENDING_GRAVITY || '1.8');
+
+export const TRENDING_WEIGHTS = {
+  likes: 1,
+  replies: 2,
+  remurmurs: 2,
+};
+
+// Murmurs older than this are never trending, which also caps the window clients can ask for
+export const TRENDING_MAX_AGE_HOURS = 168;
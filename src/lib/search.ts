@@ -0,0 +1,70 @@
+// Search syntax: bare words must all match, "quoted phrases" must match in order,
+// -word excludes murmurs containing the word. The last bare word is matched as a
+// prefix so results update while the user is still typing it.
+
+// Text search configuration used for every search column and query. 'simple'
+// does no stemming, which keeps prefix matches predictable in any language.
+export const SEARCH_CONFIG = 'simple';
+
+export interface ParsedSearchQuery {
+  terms: string[][];
+  phrases: string[][];
+  excluded: string[][];
+}
+
+// Lowercase word tokens, mirroring how the 'simple' configuration splits text
+const tokenize = (text: string): string[] => {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+};
+
+export const parseSearchQuery = (query: string): ParsedSearchQuery => {
+  const parsed: ParsedSearchQuery = { terms: [], phrases: [], excluded: [] };
+
+  for (const match of query.matchAll(/(-?)"([^"]*)"?|(\S+)/g)) {
+    const [, negated, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      const tokens = tokenize(phrase);
+      if (tokens.length > 0) {
+        (negated ? parsed.excluded : parsed.phrases).push(tokens);
+      }
+      continue;
+    }
+
+    if (word!.startsWith('-') && word!.length > 1) {
+      const tokens = tokenize(word!.slice(1));
+      if (tokens.length > 0) parsed.excluded.push(tokens);
+      continue;
+    }
+
+    const tokens = tokenize(word!);
+    if (tokens.length > 0) parsed.terms.push(tokens);
+  }
+
+  return parsed;
+};
+
+const followedBy = (tokens: string[]): string => tokens.join(' <-> ');
+
+// Build a to_tsquery() expression. Every token is made of letters and digits only,
+// so user input can never inject tsquery operators. Returns null when nothing
+// positive is left to match (an empty query, or only exclusions).
+export const buildTsQuery = (query: string): string | null => {
+  const { terms, phrases, excluded } = parseSearchQuery(query);
+  if (terms.length === 0 && phrases.length === 0) return null;
+
+  const clauses = terms.map((tokens, index) => {
+    const isLast = index === terms.length - 1;
+    const words = isLast ? [...tokens.slice(0, -1), `${tokens[tokens.length - 1]}:*`] : tokens;
+    return words.length > 1 ? `(${followedBy(words)})` : words[0]!;
+  });
+
+  phrases.forEach(tokens => clauses.push(`(${followedBy(tokens)})`));
+  excluded.forEach(tokens => clauses.push(`!(${followedBy(tokens)})`));
+
+  return clauses.join(' & ');
+};
+
+// Options for ts_headline(). Input is HTML-escaped before highlighting, so the
+// only markup in a snippet is the <mark> tags around matches.
+export const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
@@ -0,0 +1,54 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Backend-agnostic file storage; swap in an object-store driver with setStorage
+export interface StorageDriver {
+  // Store a file under the given key and return its public URL
+  put(key: string, data: Buffer, mimeType: string): Promise<string>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+// Keeps files on the local filesystem; the app serves them from publicPath
+export class LocalDiskStorage implements StorageDriver {
+  constructor(
+    readonly rootDir: string,
+    readonly publicPath: string = '/uploads',
+    private readonly baseUrl: string = ''
+  ) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    return this.getUrl(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${this.baseUrl}${this.publicPath}/${key}`;
+  }
+}
+
+let storage: StorageDriver = new LocalDiskStorage(
+  path.resolve(process.env.UPLOAD_DIR || 'uploads'),
+  '/uploads',
+  process.env.UPLOAD_BASE_URL || ''
+);
+
+export const getStorage = (): StorageDriver => storage;
+
+export const setStorage = (nextStorage: StorageDriver): void => {
+  storage = nextStorage;
+};
@@ -0,0 +1,38 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+
+export interface AccessTokenPayload {
+  userId: string;
+  sessionId: string;
+}
+
+const getJwtSecret = (): string => {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET is not defined in environment variables');
+  }
+  return jwtSecret;
+};
+
+// Short-lived access token tied to a session
+export const signAccessToken = (userId: string, sessionId: string): string => {
+  return jwt.sign(
+    { userId, sessionId },
+    getJwtSecret(),
+    { expiresIn: process.env.JWT_EXPIRES_IN || '15m' } as SignOptions
+  );
+};
+
+export const verifyAccessToken = (token: string): AccessTokenPayload => {
+  return jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+};
+
+// Opaque random token for refresh, reset and verification links
+export const generateToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+// Only hashes of opaque tokens are stored
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
@@ -1,38 +1,31 @@
 import { Request, Response, NextFunction } from 'express';
+import { User, UserRole } from '@prisma/client';
 import jwt from 'jsonwebtoken';
 import UserService from '../models/User';
+import SessionService from '../models/Session';
+import { verifyAccessToken } from '../lib/tokens';
+
+// The signed-in user attached by authenticate (or optionalAuth)
+export type AuthUser = Omit<User, 'password'>;
 
 export interface AuthRequest extends Request {
-  user?: any;
+  user?: AuthUser;
+  sessionId?: string;
 }
 
-export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+// Verify a JWT and attach the active user it belongs to
+const authenticateToken = async (token: string, req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        error: 'Access token is required',
-      });
-    }
-
-    const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+    // Verify JWT token
+    const decoded = verifyAccessToken(token);
 
-    if (!token) {
+    // Reject tokens whose session was logged out or revoked
+    if (!decoded.sessionId || !await SessionService.isActive(decoded.sessionId, decoded.userId)) {
       return res.status(401).json({
         success: false,
-        error: 'Access token is required',
+        error: 'Session has been revoked',
       });
     }
-
-    // Verify JWT token
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET is not defined in environment variables');
-    }
-
-    const decoded = jwt.verify(token, jwtSecret) as { userId: string };
     
     // Find user by ID
     const user = await UserService.findById(decoded.userId);
@@ -44,21 +37,23 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
       });
     }
 
-    // Attach user to request object
+    // Attach user and session to request object
     req.user = user;
+    req.sessionId = decoded.sessionId;
     return next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
+    // TokenExpiredError extends JsonWebTokenError, so it has to be checked first
+    if (error instanceof jwt.TokenExpiredError) {
       return res.status(401).json({
         success: false,
-        error: 'Invalid token',
+        error: 'Token expired',
       });
     }
-    
-    if (error instanceof jwt.TokenExpiredError) {
+
+    if (error instanceof jwt.JsonWebTokenError) {
       return res.status(401).json({
         success: false,
-        error: 'Token expired',
+        error: 'Invalid token',
       });
     }
 
@@ -70,6 +65,70 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
   }
 };
 
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return res.status(401).json({
+      success: false,
+      error: 'Access token is required',
+    });
+  }
+
+  const token = authHeader.substring(7); // Remove 'Bearer ' prefix
+
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: 'Access token is required',
+    });
+  }
+
+  return authenticateToken(token, req, res, next);
+};
+
+// Authentication for event streams - browsers' EventSource cannot set headers,
+// so the token may also be passed as the access_token query parameter
+export const authenticateStream = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.startsWith('Bearer ')
+    ? authHeader.substring(7)
+    : req.query.access_token;
+
+  if (!token || typeof token !== 'string') {
+    return res.status(401).json({
+      success: false,
+      error: 'Access token is required',
+    });
+  }
+
+  return authenticateToken(token, req, res, next);
+};
+
+// Requires a verified email address; use after authenticate
+export const requireVerifiedEmail = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user?.emailVerifiedAt) {
+    return res.status(403).json({
+      success: false,
+      error: 'Please verify your email address first',
+    });
+  }
+
+  return next();
+};
+
+// Requires one of the given roles; use after authenticate
+export const requireRole = (...roles: UserRole[]) => (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user || !roles.includes(req.user.role)) {
+    return res.status(403).json({
+      success: false,
+      error: 'You do not have permission to do this',
+    });
+  }
+
+  return next();
+};
+
 // Optional authentication - doesn't fail if no token provided
 export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -85,17 +144,17 @@ export const optionalAuth = async (req: AuthRequest, res: Response, next: NextFu
       return next();
     }
 
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
+    const decoded = verifyAccessToken(token);
+
+    if (!decoded.sessionId || !await SessionService.isActive(decoded.sessionId, decoded.userId)) {
       return next();
     }
-
-    const decoded = jwt.verify(token, jwtSecret) as { userId: string };
     
     const user = await UserService.findById(decoded.userId);
     
     if (user && user.isActive) {
       req.user = user;
+      req.sessionId = decoded.sessionId;
     }
 
     return next();
@@ -0,0 +1,71 @@
+import express from 'express';
+import multer from 'multer';
+
+const MB = 1024 * 1024;
+
+export const MAX_IMAGE_BYTES = parseInt(process.env.MEDIA_MAX_IMAGE_SIZE_MB || '5') * MB;
+export const MAX_VIDEO_BYTES = parseInt(process.env.MEDIA_MAX_VIDEO_SIZE_MB || '50') * MB;
+
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/webm'];
+
+export const isImageMimeType = (mimeType: string): boolean => IMAGE_MIME_TYPES.includes(mimeType);
+
+// Largest size allowed for a file of the given MIME type
+export const maxBytesFor = (mimeType: string): number => {
+  return isImageMimeType(mimeType) ? MAX_IMAGE_BYTES : MAX_VIDEO_BYTES;
+};
+
+class UnsupportedMediaTypeError extends Error {}
+
+// Buffer uploads in memory; files are validated before they reach storage
+const createUpload = (allowedMimeTypes: string[], maxBytes: number) => multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: maxBytes,
+    files: 1,
+  },
+  fileFilter: (req, file, callback) => {
+    if (!allowedMimeTypes.includes(file.mimetype)) {
+      return callback(new UnsupportedMediaTypeError(`Unsupported file type: ${file.mimetype}`));
+    }
+    return callback(null, true);
+  },
+});
+
+// Accept a single file from the given field, answering upload errors as JSON
+export const singleFile = (field: string, allowedMimeTypes: string[], maxBytes: number) => {
+  const upload = createUpload(allowedMimeTypes, maxBytes).single(field);
+
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof UnsupportedMediaTypeError) {
+        return res.status(415).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      if (error instanceof multer.MulterError) {
+        const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+        return res.status(tooLarge ? 413 : 400).json({
+          success: false,
+          error: tooLarge ? 'File is too large' : error.message,
+        });
+      }
+
+      if (error) {
+        return next(error);
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: `A file is required in the "${field}" field`,
+        });
+      }
+
+      return next();
+    });
+  };
+};
@@ -0,0 +1,143 @@
+import { PrismaClient } from '@prisma/client';
+import FollowService from './Follow';
+import LikeService from './Like';
+import MurmurService from './Murmur';
+import PollService from './Poll';
+import ModerationService from './Moderation';
+import ConversationService from './Conversation';
+import MediaService from './Media';
+import { deleteProfileImage } from '../lib/images';
+
+const prisma = new PrismaClient();
+
+// How long a deleted account can still be restored by signing in
+export const ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+// How many due accounts are purged per run of the purge job
+const DUE_ACCOUNTS_BATCH_SIZE = 20;
+
+// Longest a single purge may hold its transaction open
+const PURGE_TIMEOUT_MS = 60 * 1000;
+
+// Inactive placeholder that takes over purged users' murmurs, so they stay as
+// empty deleted tombstones: replies to them remain replies and drafts replying to
+// them are kept. The username can't be registered (no hyphens allowed).
+const DELETED_USER = {
+  id: 'deleted-user',
+  username: 'deleted-user',
+  email: 'deleted-user@invalid',
+  displayName: 'Deleted user',
+  password: '!',
+  isActive: false,
+};
+
+export class AccountDeletionService {
+  // When an account deleted now will be purged
+  static getDeletionDate(from: Date = new Date()): Date {
+    return new Date(from.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  // Purge accounts whose grace period is over. One account failing doesn't stop
+  // the rest; it is retried on the next run. Returns how many were purged.
+  static async purgeDueAccounts(): Promise<number> {
+    const users = await prisma.user.findMany({
+      where: {
+        isActive: false,
+        deletionScheduledAt: { lte: new Date() },
+      },
+      orderBy: { deletionScheduledAt: 'asc' },
+      take: DUE_ACCOUNTS_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    let purged = 0;
+    for (const user of users) {
+      try {
+        if (await this.purge(user.id)) purged++;
+      } catch (error) {
+        console.error(`Purge account ${user.id} error:`, error);
+      }
+    }
+    return purged;
+  }
+
+  // Remove a due account and everything it owns, fixing the counts of every
+  // other user and murmur it touched, in one transaction. Its murmurs are kept as
+  // deleted tombstones under the placeholder user. Stored files are removed once
+  // the transaction has committed. Returns false when the account is gone or no
+  // longer due.
+  static async purge(userId: string): Promise<boolean> {
+    const files = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { avatarKey: true, bannerKey: true },
+    });
+    if (!files) return false;
+    const mediaKeys = await MediaService.getStorageKeysForUser(userId);
+
+    const purged = await prisma.$transaction(async (tx) => {
+      // Lock the account for the rest of the purge, so signing in can't
+      // reactivate it halfway through
+      const { count } = await tx.user.updateMany({
+        where: {
+          id: userId,
+          isActive: false,
+          deletionScheduledAt: { lte: new Date() },
+        },
+        data: { deactivatedAt: null },
+      });
+      if (count === 0) return false;
+
+      await FollowService.removeAllFollowsForUser(tx, userId);
+      await LikeService.deleteAllByUser(tx, userId);
+      await MurmurService.removeAllMurmursForUser(tx, userId);
+      await PollService.removeAllVotesForUser(tx, userId);
+      await ModerationService.removeAllReportsForUser(tx, userId);
+      await ConversationService.handOverCreatedConversations(tx, userId);
+
+      // Plain remurmurs leave nothing to keep, and the placeholder may only hold
+      // one remurmur of each murmur
+      await tx.murmur.deleteMany({
+        where: { userId, remurmurOfId: { not: null } },
+      });
+      await tx.user.upsert({
+        where: { id: DELETED_USER.id },
+        update: {},
+        create: DELETED_USER,
+      });
+
+      // Only the bare rows are kept: their text, edit history, mentions and
+      // polls are removed along with the rest of the user's data
+      await tx.murmurRevision.deleteMany({
+        where: { murmur: { userId } },
+      });
+      await tx.mention.deleteMany({
+        where: { murmur: { userId } },
+      });
+      await tx.poll.deleteMany({
+        where: { murmur: { userId } },
+      });
+      await tx.murmur.updateMany({
+        where: { userId },
+        data: { userId: DELETED_USER.id, content: '' },
+      });
+
+      await tx.user.delete({
+        where: { id: userId },
+      });
+      return true;
+    }, { timeout: PURGE_TIMEOUT_MS });
+    if (!purged) return false;
+
+    try {
+      await MediaService.deleteStoredFiles(mediaKeys);
+      if (files.avatarKey) await deleteProfileImage('avatar', files.avatarKey);
+      if (files.bannerKey) await deleteProfileImage('banner', files.bannerKey);
+    } catch (error) {
+      console.error(`Delete files of purged account ${userId} error:`, error);
+    }
+
+    return true;
+  }
+}
+
+export default AccountDeletionService;
@@ -0,0 +1,87 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type AuditAction =
+  | 'user.suspend'
+  | 'user.reactivate'
+  | 'user.role_change'
+  | 'user.sessions_reset'
+  | 'murmur.delete'
+  | 'moderation_case.resolve';
+
+export type AuditTargetType = 'user' | 'murmur' | 'moderation_case';
+
+export interface IAuditEntryCreate {
+  actorId: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  details?: Prisma.InputJsonObject | undefined;
+  ipAddress?: string | null | undefined;
+}
+
+export interface AuditLogFilters {
+  actorId?: string | undefined;
+  action?: AuditAction | undefined;
+  targetType?: AuditTargetType | undefined;
+  targetId?: string | undefined;
+}
+
+const entryInclude = Prisma.validator<Prisma.AuditLogEntryInclude>()({
+  actor: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      avatar: true,
+      role: true,
+    },
+  },
+});
+
+export type AuditLogEntry = Prisma.AuditLogEntryGetPayload<{ include: typeof entryInclude }>;
+
+export class AuditLogService {
+  // Record a privileged action
+  static async record(entry: IAuditEntryCreate): Promise<void> {
+    await prisma.auditLogEntry.create({
+      data: {
+        actorId: entry.actorId,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        ...(entry.details && { details: entry.details }),
+        ...(entry.ipAddress && { ipAddress: entry.ipAddress }),
+      },
+    });
+  }
+
+  // Get audit log entries, newest first
+  static async getEntries(filters: AuditLogFilters, limit: number = 50, offset: number = 0): Promise<{
+    entries: AuditLogEntry[];
+    totalCount: number;
+  }> {
+    const where: Prisma.AuditLogEntryWhereInput = {
+      ...(filters.actorId && { actorId: filters.actorId }),
+      ...(filters.action && { action: filters.action }),
+      ...(filters.targetType && { targetType: filters.targetType }),
+      ...(filters.targetId && { targetId: filters.targetId }),
+    };
+
+    const [entries, totalCount] = await Promise.all([
+      prisma.auditLogEntry.findMany({
+        where,
+        include: entryInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      prisma.auditLogEntry.count({ where }),
+    ]);
+
+    return { entries, totalCount };
+  }
+}
+
+export default AuditLogService;
@@ -0,0 +1,57 @@
+import { PrismaClient } from '@prisma/client';
+import { generateToken, hashToken } from '../lib/tokens';
+
+const prisma = new PrismaClient();
+
+export type AuthTokenType = 'password_reset' | 'email_verification';
+
+export class AuthTokenService {
+  // Issue a single-use token, replacing any unused token of the same type
+  static async issue(userId: string, type: AuthTokenType, ttlMs: number): Promise<string> {
+    const token = generateToken();
+
+    await prisma.$transaction([
+      prisma.authToken.deleteMany({
+        where: {
+          userId,
+          type,
+          usedAt: null,
+        },
+      }),
+      prisma.authToken.create({
+        data: {
+          userId,
+          type,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + ttlMs),
+        },
+      }),
+    ]);
+
+    return token;
+  }
+
+  // Use up a token; returns the owning user's ID if it was valid
+  static async consume(token: string, type: AuthTokenType): Promise<string | null> {
+    const authToken = await prisma.authToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!authToken || authToken.type !== type || authToken.usedAt || authToken.expiresAt <= new Date()) {
+      return null;
+    }
+
+    // Guard against the same token being redeemed twice concurrently
+    const result = await prisma.authToken.updateMany({
+      where: {
+        id: authToken.id,
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    return result.count > 0 ? authToken.userId : null;
+  }
+}
+
+export default AuthTokenService;
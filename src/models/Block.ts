@@ -0,0 +1,120 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Type for Block model from Prisma
+type Block = {
+  id: string;
+  blockerId: string;
+  blockedId: string;
+  createdAt: Date;
+};
+
+export class BlockService {
+  // Block a user
+  static async create(blockerId: string, blockedId: string): Promise<Block> {
+    if (blockerId === blockedId) {
+      throw new Error('Users cannot block themselves');
+    }
+
+    return await prisma.block.create({
+      data: {
+        blockerId,
+        blockedId,
+      },
+    });
+  }
+
+  // Unblock a user
+  static async delete(blockerId: string, blockedId: string): Promise<boolean> {
+    try {
+      await prisma.block.delete({
+        where: {
+          blockerId_blockedId: {
+            blockerId,
+            blockedId,
+          },
+        },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Check if a user has blocked another user
+  static async isBlocked(blockerId: string, blockedId: string): Promise<boolean> {
+    const block = await prisma.block.findUnique({
+      where: {
+        blockerId_blockedId: {
+          blockerId,
+          blockedId,
+        },
+      },
+    });
+    return !!block;
+  }
+
+  // Check if either user has blocked the other
+  static async isBlockedEitherWay(userId: string, otherUserId: string): Promise<boolean> {
+    const block = await prisma.block.findFirst({
+      where: {
+        OR: [
+          { blockerId: userId, blockedId: otherUserId },
+          { blockerId: otherUserId, blockedId: userId },
+        ],
+      },
+    });
+    return !!block;
+  }
+
+  // Get IDs of users whose content is hidden from a user: everyone they blocked
+  // and everyone who blocked them
+  static async getHiddenUserIds(userId: string): Promise<string[]> {
+    const blocks = await prisma.block.findMany({
+      where: {
+        OR: [
+          { blockerId: userId },
+          { blockedId: userId },
+        ],
+      },
+      select: {
+        blockerId: true,
+        blockedId: true,
+      },
+    });
+
+    return [...new Set(blocks.map((block: any) => block.blockerId === userId ? block.blockedId : block.blockerId))];
+  }
+
+  // Get users blocked by a user
+  static async getBlockedUsers(userId: string, limit: number = 20, offset: number = 0): Promise<{
+    users: any[];
+    totalCount: number;
+  }> {
+    const blocks = await prisma.block.findMany({
+      where: { blockerId: userId },
+      include: {
+        blocked: {
+          select: {
+            id: true,
+            username: true,
+            displayName: true,
+            avatar: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+
+    const totalCount = await prisma.block.count({
+      where: { blockerId: userId },
+    });
+
+    return { users: blocks.map((block: any) => block.blocked), totalCount };
+  }
+}
+
+export default BlockService;
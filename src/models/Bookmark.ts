@@ -0,0 +1,136 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { PageInfo, timeCursorWhere, toPage } from '../lib/pagination';
+import { FeedOptions, buildVisibilityWhere, murmurInclude } from './Murmur';
+
+const prisma = new PrismaClient();
+
+// Type for Bookmark model from Prisma
+type Bookmark = {
+  id: string;
+  userId: string;
+  murmurId: string;
+  folderId: string | null;
+  createdAt: Date;
+};
+
+export interface BookmarkListOptions extends FeedOptions {
+  // A folder ID, null for bookmarks outside any folder, undefined for all
+  folderId?: string | null | undefined;
+}
+
+export class BookmarkService {
+  // Bookmark a murmur, optionally straight into a folder
+  static async create(userId: string, murmurId: string, folderId?: string | null): Promise<Bookmark> {
+    return await prisma.bookmark.create({
+      data: {
+        userId,
+        murmurId,
+        folderId: folderId ?? null,
+      },
+    });
+  }
+
+  // Find bookmark by user and murmur
+  static async findByUserAndMurmur(userId: string, murmurId: string): Promise<Bookmark | null> {
+    return await prisma.bookmark.findUnique({
+      where: {
+        userId_murmurId: {
+          userId,
+          murmurId,
+        },
+      },
+    });
+  }
+
+  // Remove a bookmark
+  static async delete(userId: string, murmurId: string): Promise<boolean> {
+    try {
+      await prisma.bookmark.delete({
+        where: {
+          userId_murmurId: {
+            userId,
+            murmurId,
+          },
+        },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Move a bookmark into a folder, or out of any folder with null
+  static async move(userId: string, murmurId: string, folderId: string | null): Promise<Bookmark | null> {
+    try {
+      return await prisma.bookmark.update({
+        where: {
+          userId_murmurId: {
+            userId,
+            murmurId,
+          },
+        },
+        data: { folderId },
+      });
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Get which of the given murmurs a user has bookmarked
+  static async getBookmarkedIds(userId: string, murmurIds: string[]): Promise<Set<string>> {
+    if (murmurIds.length === 0) return new Set();
+
+    const bookmarks = await prisma.bookmark.findMany({
+      where: {
+        userId,
+        murmurId: { in: murmurIds },
+      },
+      select: { murmurId: true },
+    });
+
+    return new Set(bookmarks.map((bookmark: any) => bookmark.murmurId));
+  }
+
+  // Get a user's bookmarks, newest first. Bookmarks of deleted murmurs, of authors
+  // the user blocked (or was blocked by) and of private accounts they no longer
+  // follow are left out.
+  static async getBookmarks(userId: string, options: BookmarkListOptions = {}): Promise<{
+    bookmarks: Bookmark[];
+  } & PageInfo> {
+    const limit = options.limit ?? 20;
+    const where: Prisma.BookmarkWhereInput = {
+      userId,
+      ...(options.folderId !== undefined && { folderId: options.folderId }),
+      murmur: {
+        AND: [
+          { isDeleted: false },
+          await buildVisibilityWhere(userId),
+        ],
+      },
+    };
+
+    const rows = await prisma.bookmark.findMany({
+      where: options.cursor ? { AND: [where, timeCursorWhere(options.cursor)] } : where,
+      include: {
+        murmur: {
+          include: murmurInclude,
+        },
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(!options.cursor && options.offset && { skip: options.offset }),
+    });
+
+    const { items, hasMore, nextCursor } = toPage(rows, limit);
+    const totalCount = options.includeTotal ? await prisma.bookmark.count({ where }) : undefined;
+
+    return {
+      bookmarks: items,
+      hasMore,
+      nextCursor,
+      ...(totalCount !== undefined && { totalCount }),
+    };
+  }
+}
+
+export default BookmarkService;
@@ -0,0 +1,85 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Type for BookmarkFolder model from Prisma
+type BookmarkFolder = {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export class BookmarkFolderService {
+  // Create a folder
+  static async create(userId: string, name: string): Promise<BookmarkFolder> {
+    return await prisma.bookmarkFolder.create({
+      data: {
+        userId,
+        name,
+      },
+    });
+  }
+
+  // Find folder by ID
+  static async findById(id: string): Promise<BookmarkFolder | null> {
+    return await prisma.bookmarkFolder.findUnique({
+      where: { id },
+    });
+  }
+
+  // Find one of a user's folders by name
+  static async findByName(userId: string, name: string): Promise<BookmarkFolder | null> {
+    return await prisma.bookmarkFolder.findUnique({
+      where: {
+        userId_name: {
+          userId,
+          name,
+        },
+      },
+    });
+  }
+
+  // Rename a folder
+  static async rename(id: string, name: string): Promise<BookmarkFolder> {
+    return await prisma.bookmarkFolder.update({
+      where: { id },
+      data: { name },
+    });
+  }
+
+  // Delete a folder; its bookmarks are kept, outside any folder
+  static async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.bookmarkFolder.delete({
+        where: { id },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Get a user's folders by name, with how many live bookmarks each holds
+  static async getFolders(userId: string): Promise<(BookmarkFolder & { bookmarksCount: number })[]> {
+    const folders = await prisma.bookmarkFolder.findMany({
+      where: { userId },
+      include: {
+        _count: {
+          select: {
+            bookmarks: { where: { murmur: { isDeleted: false } } },
+          },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return folders.map(({ _count, ...folder }) => ({
+      ...folder,
+      bookmarksCount: _count.bookmarks,
+    }));
+  }
+}
+
+export default BookmarkFolderService;
@@ -0,0 +1,270 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import UserService from './User';
+import FollowService from './Follow';
+import BlockService from './Block';
+
+const prisma = new PrismaClient();
+
+// Most people in a group conversation, its creator included
+export const MAX_GROUP_PARTICIPANTS = 50;
+
+type ParticipantUser = {
+  id: string;
+  username: string;
+  displayName: string;
+  avatar: string | null;
+};
+
+// Type for ConversationParticipant model from Prisma
+export type ConversationParticipant = {
+  id: string;
+  conversationId: string;
+  userId: string;
+  joinedAt: Date;
+  lastReadAt: Date | null;
+  leftAt: Date | null;
+  user?: ParticipantUser;
+};
+
+// Type for Conversation model from Prisma
+export type Conversation = {
+  id: string;
+  creatorId: string;
+  isGroup: boolean;
+  title: string | null;
+  directKey: string | null;
+  lastMessageAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  participants?: ConversationParticipant[];
+};
+
+const participantUserSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  displayName: true,
+  avatar: true,
+});
+
+// Current participants, with their read receipts
+const conversationInclude = Prisma.validator<Prisma.ConversationInclude>()({
+  participants: {
+    where: { leftAt: null },
+    include: { user: { select: participantUserSelect } },
+    orderBy: { joinedAt: 'asc' },
+  },
+});
+
+// One-to-one conversations are keyed by their sorted participant IDs
+const directKeyFor = (userId: string, otherUserId: string): string => {
+  return [userId, otherUserId].sort().join(':');
+};
+
+export class ConversationService {
+  // Check whether a user may start a conversation with another: never across a
+  // block, and otherwise only with mutual follows or users who opened their DMs
+  static async canMessage(senderId: string, recipientId: string): Promise<boolean> {
+    if (senderId === recipientId) return false;
+
+    const recipient = await UserService.findById(recipientId);
+    if (!recipient || !recipient.isActive) return false;
+
+    if (await BlockService.isBlockedEitherWay(senderId, recipientId)) return false;
+    if (recipient.dmsOpen) return true;
+
+    const [follows, followedBack] = await Promise.all([
+      FollowService.isFollowing(senderId, recipientId),
+      FollowService.isFollowing(recipientId, senderId),
+    ]);
+    return follows && followedBack;
+  }
+
+  // Get the one-to-one conversation between two users, starting it if needed
+  static async findOrCreateDirect(userId: string, otherUserId: string): Promise<Conversation> {
+    return await prisma.conversation.upsert({
+      where: { directKey: directKeyFor(userId, otherUserId) },
+      update: {},
+      create: {
+        creatorId: userId,
+        directKey: directKeyFor(userId, otherUserId),
+        participants: {
+          create: [{ userId }, { userId: otherUserId }],
+        },
+      },
+      include: conversationInclude,
+    });
+  }
+
+  // Start a group conversation
+  static async createGroup(creatorId: string, participantIds: string[], title?: string): Promise<Conversation> {
+    return await prisma.conversation.create({
+      data: {
+        creatorId,
+        isGroup: true,
+        ...(title && { title }),
+        participants: {
+          create: [creatorId, ...participantIds.filter(id => id !== creatorId)].map(userId => ({ userId })),
+        },
+      },
+      include: conversationInclude,
+    });
+  }
+
+  // Find conversation by ID
+  static async findById(id: string): Promise<Conversation | null> {
+    return await prisma.conversation.findUnique({
+      where: { id },
+      include: conversationInclude,
+    });
+  }
+
+  // Find a user's membership of a conversation, if they are still in it
+  static async getParticipant(conversationId: string, userId: string): Promise<ConversationParticipant | null> {
+    return await prisma.conversationParticipant.findFirst({
+      where: {
+        conversationId,
+        userId,
+        leftAt: null,
+      },
+    });
+  }
+
+  // Get a user's conversations, most recently active first, with the latest message of each
+  static async getUserConversations(userId: string, limit: number = 20, offset: number = 0): Promise<{
+    conversations: any[];
+    totalCount: number;
+  }> {
+    const where: Prisma.ConversationWhereInput = {
+      participants: { some: { userId, leftAt: null } },
+    };
+
+    const conversations = await prisma.conversation.findMany({
+      where,
+      include: {
+        ...conversationInclude,
+        messages: {
+          where: { isDeleted: false },
+          include: { sender: { select: participantUserSelect } },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+      orderBy: [{ lastMessageAt: 'desc' }, { id: 'desc' }],
+      take: limit,
+      skip: offset,
+    });
+
+    const [unreadCounts, totalCount] = await Promise.all([
+      this.getUnreadCounts(userId, conversations.map((conversation: any) => conversation.id)),
+      prisma.conversation.count({ where }),
+    ]);
+
+    return {
+      conversations: conversations.map(({ messages, ...conversation }: any) => ({
+        ...conversation,
+        lastMessage: messages[0] ?? null,
+        unreadCount: unreadCounts.get(conversation.id) ?? 0,
+      })),
+      totalCount,
+    };
+  }
+
+  // Count messages from others that a user hasn't read yet, per conversation. Only
+  // the given conversations are counted, or all of the user's when none are given.
+  static async getUnreadCounts(userId: string, conversationIds?: string[]): Promise<Map<string, number>> {
+    if (conversationIds && conversationIds.length === 0) return new Map();
+
+    const rows = await prisma.$queryRaw<{ conversationId: string; unreadCount: number }[]>`
+      SELECT p."conversationId", count(m."id")::int AS "unreadCount"
+      FROM "conversation_participants" p
+      JOIN "messages" m ON m."conversationId" = p."conversationId"
+        AND m."createdAt" > coalesce(p."lastReadAt", p."joinedAt")
+        AND m."senderId" <> p."userId"
+        AND m."isDeleted" = false
+      WHERE p."userId" = ${userId}
+        AND p."leftAt" IS NULL
+        ${conversationIds ? Prisma.sql`AND p."conversationId" = ANY(${conversationIds}::text[])` : Prisma.empty}
+      GROUP BY p."conversationId"
+    `;
+
+    return new Map(rows.map(row => [row.conversationId, row.unreadCount]));
+  }
+
+  // Bring users into a group; people who left before rejoin from now on
+  static async addParticipants(conversationId: string, userIds: string[]): Promise<void> {
+    await prisma.$transaction(userIds.map(userId => prisma.conversationParticipant.upsert({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+      update: {
+        joinedAt: new Date(),
+        lastReadAt: null,
+        leftAt: null,
+      },
+      create: {
+        conversationId,
+        userId,
+      },
+    })));
+  }
+
+  // Leave a group conversation
+  static async leave(conversationId: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.conversationParticipant.updateMany({
+      where: {
+        conversationId,
+        userId,
+        leftAt: null,
+      },
+      data: { leftAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  // Hand the conversations a user created to another participant (when user is
+  // deleted), preferring the longest-standing member who hasn't left. Deleting
+  // the creator would otherwise delete the conversation for everyone.
+  static async handOverCreatedConversations(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    const conversations = await tx.conversation.findMany({
+      where: { creatorId: userId },
+      select: {
+        id: true,
+        participants: {
+          where: { userId: { not: userId } },
+          orderBy: { joinedAt: 'asc' },
+          select: { userId: true, leftAt: true },
+        },
+      },
+    });
+
+    for (const conversation of conversations) {
+      const successor = conversation.participants.find(participant => !participant.leftAt)
+        ?? conversation.participants[0];
+      if (!successor) continue;
+
+      await tx.conversation.update({
+        where: { id: conversation.id },
+        data: { creatorId: successor.userId },
+      });
+    }
+  }
+
+  // Move a user's read receipt forward; it never moves back
+  static async markRead(conversationId: string, userId: string, readAt: Date = new Date()): Promise<boolean> {
+    const { count } = await prisma.conversationParticipant.updateMany({
+      where: {
+        conversationId,
+        userId,
+        leftAt: null,
+        OR: [{ lastReadAt: null }, { lastReadAt: { lt: readAt } }],
+      },
+      data: { lastReadAt: readAt },
+    });
+    return count > 0;
+  }
+}
+
+export default ConversationService;
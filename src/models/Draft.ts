@@ -0,0 +1,274 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { publishToUser } from '../lib/events';
+import { Murmur } from './Murmur';
+import { IPollCreate } from './Poll';
+import PublishService, { PublishError } from './Publish';
+import HydrationService from './Hydration';
+
+const prisma = new PrismaClient();
+
+// How many times a due draft is tried before publishing gives up
+export const MAX_PUBLISH_ATTEMPTS = 5;
+
+// Wait before retrying a failed publish, doubled after each further failure
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+// How many due drafts are handled per run of the publishing job
+const DUE_DRAFTS_BATCH_SIZE = 50;
+
+// Type for Draft model from Prisma
+type Draft = {
+  id: string;
+  userId: string;
+  content: string;
+  replyToId: string | null;
+  mediaIds: string[];
+  poll: Prisma.JsonValue | null;
+  publishAt: Date | null;
+  publishAttempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  failedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+// 'draft' is only saved, 'scheduled' waits for its publishAt (or a retry) and
+// 'failed' gave up publishing until the user changes it
+export type DraftStatus = 'draft' | 'scheduled' | 'failed';
+
+export type DraftView = Omit<Draft, 'poll'> & {
+  poll: IPollCreate | null;
+  status: DraftStatus;
+};
+
+export interface IDraftSave {
+  content?: string | undefined;
+  replyToId?: string | null | undefined;
+  mediaIds?: string[] | undefined;
+  poll?: IPollCreate | null | undefined;
+  publishAt?: Date | null | undefined;
+}
+
+const statusWhere = (status: DraftStatus): Prisma.DraftWhereInput => {
+  switch (status) {
+    case 'draft':
+      return { publishAt: null };
+    case 'scheduled':
+      return { publishAt: { not: null }, failedAt: null };
+    case 'failed':
+      return { failedAt: { not: null } };
+  }
+};
+
+const toPollJson = (poll: IPollCreate | null): Prisma.InputJsonValue | typeof Prisma.DbNull => {
+  return poll ? { options: poll.options, durationMinutes: poll.durationMinutes } : Prisma.DbNull;
+};
+
+const retryDelayMs = (attempt: number): number => RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+
+export class DraftService {
+  // Save a new draft
+  static async create(userId: string, data: IDraftSave): Promise<Draft> {
+    return await prisma.draft.create({
+      data: {
+        userId,
+        ...(data.content !== undefined && { content: data.content }),
+        ...(data.replyToId && { replyToId: data.replyToId }),
+        ...(data.mediaIds && { mediaIds: data.mediaIds }),
+        ...(data.poll && { poll: toPollJson(data.poll) }),
+        ...(data.publishAt && { publishAt: data.publishAt }),
+      },
+    });
+  }
+
+  // Find draft by ID
+  static async findById(id: string): Promise<Draft | null> {
+    return await prisma.draft.findUnique({
+      where: { id },
+    });
+  }
+
+  // Get a user's drafts, most recently changed first
+  static async getUserDrafts(userId: string, status?: DraftStatus, limit: number = 20, offset: number = 0): Promise<{
+    drafts: Draft[];
+    totalCount: number;
+  }> {
+    const where: Prisma.DraftWhereInput = {
+      userId,
+      ...(status && statusWhere(status)),
+    };
+
+    const [drafts, totalCount] = await Promise.all([
+      prisma.draft.findMany({
+        where,
+        orderBy: [{ updatedAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      prisma.draft.count({ where }),
+    ]);
+
+    return { drafts, totalCount };
+  }
+
+  // Update a draft. Any change starts its publishing over, so a draft that failed
+  // is tried again once the user has edited or rescheduled it.
+  static async update(id: string, data: IDraftSave): Promise<Draft> {
+    return await prisma.draft.update({
+      where: { id },
+      data: {
+        ...(data.content !== undefined && { content: data.content }),
+        ...(data.replyToId !== undefined && { replyToId: data.replyToId }),
+        ...(data.mediaIds !== undefined && { mediaIds: data.mediaIds }),
+        ...(data.poll !== undefined && { poll: toPollJson(data.poll) }),
+        ...(data.publishAt !== undefined && { publishAt: data.publishAt }),
+        publishAttempts: 0,
+        nextAttemptAt: null,
+        lastError: null,
+        failedAt: null,
+      },
+    });
+  }
+
+  // Delete a draft
+  static async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.draft.delete({
+        where: { id },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Get the poll saved on a draft
+  static getPoll(draft: Draft): IPollCreate | null {
+    return draft.poll ? draft.poll as unknown as IPollCreate : null;
+  }
+
+  // Shape a draft for its owner
+  static toView(draft: Draft): DraftView {
+    const status: DraftStatus = draft.failedAt ? 'failed' : draft.publishAt ? 'scheduled' : 'draft';
+
+    return {
+      ...draft,
+      poll: this.getPoll(draft),
+      status,
+    };
+  }
+
+  // Claim a draft for publishing, unless another publish took it or the user
+  // changed it since it was loaded. The claim holds off the publishing job until
+  // the retry time. Returns the attempt number, or null when it wasn't claimed.
+  static async claim(draft: Draft): Promise<number | null> {
+    const attempt = draft.publishAttempts + 1;
+
+    const { count } = await prisma.draft.updateMany({
+      where: { id: draft.id, updatedAt: draft.updatedAt },
+      data: {
+        publishAttempts: attempt,
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempt)),
+      },
+    });
+
+    return count > 0 ? attempt : null;
+  }
+
+  // Give up a claim taken with claim(), restoring the draft's retry state, e.g.
+  // when a publish the user asked for failed. A draft published in the meantime
+  // is already gone and stays so.
+  static async releaseClaim(draft: Draft): Promise<void> {
+    await prisma.draft.updateMany({
+      where: { id: draft.id },
+      data: {
+        publishAttempts: draft.publishAttempts,
+        nextAttemptAt: draft.nextAttemptAt,
+      },
+    });
+  }
+
+  // Publish a draft as a murmur through the same path as POST /api/murmurs. The
+  // draft is deleted in the transaction that creates the murmur, so once it is
+  // published it is never retried, even if notifying followers fails afterwards.
+  // Throws a PublishError when the draft can't be published.
+  static async publish(draft: Draft): Promise<Murmur> {
+    try {
+      return await PublishService.publish(draft.userId, {
+        content: draft.content,
+        replyToId: draft.replyToId ?? undefined,
+        mediaIds: draft.mediaIds,
+        poll: this.getPoll(draft) ?? undefined,
+        draftId: draft.id,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        throw new PublishError('Draft not found', 404);
+      }
+      throw error;
+    }
+  }
+
+  // Publish scheduled drafts that are due. A failed publish is retried with a
+  // growing delay; drafts that can't be published as they stand, or that ran out
+  // of attempts, are marked failed. Owners hear about both outcomes on their
+  // event stream. Returns how many drafts were published.
+  static async publishDueDrafts(): Promise<number> {
+    const now = new Date();
+    const drafts = await prisma.draft.findMany({
+      where: {
+        publishAt: { lte: now },
+        failedAt: null,
+        OR: [
+          { nextAttemptAt: null },
+          { nextAttemptAt: { lte: now } },
+        ],
+        user: { isActive: true },
+      },
+      orderBy: { publishAt: 'asc' },
+      take: DUE_DRAFTS_BATCH_SIZE,
+    });
+
+    let published = 0;
+    for (const draft of drafts) {
+      const attempt = await this.claim(draft);
+      if (attempt === null) continue;
+
+      try {
+        const murmur = await this.publish(draft);
+        published++;
+
+        publishToUser(draft.userId, 'draft.published', {
+          draftId: draft.id,
+          murmur: await HydrationService.hydrateOne(murmur, draft.userId),
+        });
+      } catch (error) {
+        const hasGivenUp = error instanceof PublishError || attempt >= MAX_PUBLISH_ATTEMPTS;
+        if (!(error instanceof PublishError)) {
+          console.error(`Publish draft ${draft.id} error:`, error);
+        }
+
+        // The user may have deleted the draft in the meantime
+        await prisma.draft.updateMany({
+          where: { id: draft.id },
+          data: {
+            lastError: error instanceof PublishError ? error.message : 'Something went wrong while publishing',
+            ...(hasGivenUp && { failedAt: new Date(), nextAttemptAt: null }),
+          },
+        });
+
+        const failedDraft = hasGivenUp ? await this.findById(draft.id) : null;
+        if (failedDraft) {
+          publishToUser(draft.userId, 'draft.failed', {
+            draft: this.toView(failedDraft),
+          });
+        }
+      }
+    }
+
+    return published;
+  }
+}
+
+export default DraftService;
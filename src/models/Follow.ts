@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -60,6 +60,19 @@ export class FollowService {
     }
   }
 
+  // Remove follows in both directions between two users; reports which existed
+  static async removeFollowsBetween(userId: string, otherUserId: string): Promise<{
+    userFollowedOther: boolean;
+    otherFollowedUser: boolean;
+  }> {
+    const [userFollowedOther, otherFollowedUser] = await Promise.all([
+      this.delete(userId, otherUserId),
+      this.delete(otherUserId, userId),
+    ]);
+
+    return { userFollowedOther, otherFollowedUser };
+  }
+
   // Get followers of a user
   static async getFollowers(userId: string, limit: number = 20, offset: number = 0): Promise<{
     followers: any[];
@@ -136,6 +149,51 @@ export class FollowService {
     return { following, totalCount };
   }
 
+  // Get IDs of all followers of a user
+  static async getFollowerIds(userId: string): Promise<string[]> {
+    const follows = await prisma.follow.findMany({
+      where: {
+        followingId: userId,
+      },
+      select: {
+        followerId: true,
+      },
+    });
+
+    return follows.map((follow: any) => follow.followerId);
+  }
+
+  // Get IDs of all users a user is following
+  static async getFollowingIds(followerId: string): Promise<string[]> {
+    const follows = await prisma.follow.findMany({
+      where: {
+        followerId,
+      },
+      select: {
+        followingId: true,
+      },
+    });
+
+    return follows.map((follow: any) => follow.followingId);
+  }
+
+  // Get which of the given users a user is following
+  static async getFollowingIdsAmong(followerId: string, userIds: string[]): Promise<Set<string>> {
+    if (userIds.length === 0) return new Set();
+
+    const follows = await prisma.follow.findMany({
+      where: {
+        followerId,
+        followingId: { in: userIds },
+      },
+      select: {
+        followingId: true,
+      },
+    });
+
+    return new Set(follows.map((follow: any) => follow.followingId));
+  }
+
   // Check if user is following another user
   static async isFollowing(followerId: string, followingId: string): Promise<boolean> {
     const follow = await this.findByFollowerAndFollowing(followerId, followingId);
@@ -213,22 +271,31 @@ export class FollowService {
     return follows.map((follow: any) => follow.following);
   }
 
-  // Remove all follows for a user (when user is deleted)
-  static async removeAllFollowsForUser(userId: string): Promise<void> {
-    await Promise.all([
-      // Remove all follows where user is the follower
-      prisma.follow.deleteMany({
-        where: {
-          followerId: userId,
-        },
-      }),
-      // Remove all follows where user is being followed
-      prisma.follow.deleteMany({
-        where: {
-          followingId: userId,
-        },
-      }),
-    ]);
+  // Remove all follows for a user (when user is deleted), updating the counts
+  // of everyone on either side
+  static async removeAllFollowsForUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    // Users they followed lose a follower
+    await tx.user.updateMany({
+      where: { followers: { some: { followerId: userId } } },
+      data: { followersCount: { decrement: 1 } },
+    });
+    // Users following them follow one account fewer
+    await tx.user.updateMany({
+      where: { following: { some: { followingId: userId } } },
+      data: { followingCount: { decrement: 1 } },
+    });
+    await tx.follow.deleteMany({
+      where: {
+        OR: [
+          { followerId: userId },
+          { followingId: userId },
+        ],
+      },
+    });
+    await tx.user.update({
+      where: { id: userId },
+      data: { followersCount: 0, followingCount: 0 },
+    });
   }
 }
 
@@ -0,0 +1,158 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Type for FollowRequest model from Prisma
+type FollowRequest = {
+  id: string;
+  requesterId: string;
+  targetId: string;
+  createdAt: Date;
+};
+
+export class FollowRequestService {
+  // Ask to follow a private account
+  static async create(requesterId: string, targetId: string): Promise<FollowRequest> {
+    if (requesterId === targetId) {
+      throw new Error('Users cannot follow themselves');
+    }
+
+    return await prisma.followRequest.create({
+      data: {
+        requesterId,
+        targetId,
+      },
+    });
+  }
+
+  // Find a pending request by requester and target
+  static async findByRequesterAndTarget(requesterId: string, targetId: string): Promise<FollowRequest | null> {
+    return await prisma.followRequest.findUnique({
+      where: {
+        requesterId_targetId: {
+          requesterId,
+          targetId,
+        },
+      },
+    });
+  }
+
+  // Withdraw or reject a pending request
+  static async delete(requesterId: string, targetId: string): Promise<boolean> {
+    try {
+      await prisma.followRequest.delete({
+        where: {
+          requesterId_targetId: {
+            requesterId,
+            targetId,
+          },
+        },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Drop pending requests in both directions between two users
+  static async deleteBetween(userId: string, otherUserId: string): Promise<void> {
+    await prisma.followRequest.deleteMany({
+      where: {
+        OR: [
+          { requesterId: userId, targetId: otherUserId },
+          { requesterId: otherUserId, targetId: userId },
+        ],
+      },
+    });
+  }
+
+  // Turn a pending request into a follow. Returns whether a new follow was made.
+  static async accept(requesterId: string, targetId: string): Promise<boolean> {
+    return await prisma.$transaction(async (tx) => {
+      const { count } = await tx.followRequest.deleteMany({
+        where: { requesterId, targetId },
+      });
+      if (count === 0) return false;
+
+      const { count: created } = await tx.follow.createMany({
+        data: [{ followerId: requesterId, followingId: targetId }],
+        skipDuplicates: true,
+      });
+      return created > 0;
+    });
+  }
+
+  // Accept every pending request for an account, e.g. when it stops being
+  // private. Returns the IDs of the new followers.
+  static async acceptAll(targetId: string): Promise<string[]> {
+    return await prisma.$transaction(async (tx) => {
+      const requests = await tx.followRequest.findMany({
+        where: { targetId },
+        select: { requesterId: true },
+      });
+      if (requests.length === 0) return [];
+
+      const requesterIds = requests.map(request => request.requesterId);
+      const existing = await tx.follow.findMany({
+        where: { followingId: targetId, followerId: { in: requesterIds } },
+        select: { followerId: true },
+      });
+      const alreadyFollowing = new Set(existing.map(follow => follow.followerId));
+      const newFollowerIds = requesterIds.filter(id => !alreadyFollowing.has(id));
+
+      await tx.follow.createMany({
+        data: newFollowerIds.map(followerId => ({
+          followerId,
+          followingId: targetId,
+        })),
+      });
+      // Only the requests accepted here; newer ones stay pending
+      await tx.followRequest.deleteMany({
+        where: { targetId, requesterId: { in: requesterIds } },
+      });
+
+      return newFollowerIds;
+    });
+  }
+
+  // Get pending requests for an account, newest first
+  static async getIncoming(targetId: string, limit: number = 20, offset: number = 0): Promise<{
+    requests: any[];
+    totalCount: number;
+  }> {
+    const requests = await prisma.followRequest.findMany({
+      where: { targetId },
+      include: {
+        requester: {
+          select: {
+            id: true,
+            username: true,
+            displayName: true,
+            avatar: true,
+            bio: true,
+            followersCount: true,
+            followingCount: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+
+    const totalCount = await prisma.followRequest.count({
+      where: { targetId },
+    });
+
+    return {
+      requests: requests.map((request: any) => ({
+        id: request.id,
+        createdAt: request.createdAt,
+        user: request.requester,
+      })),
+      totalCount,
+    };
+  }
+}
+
+export default FollowRequestService;
@@ -0,0 +1,138 @@
+import { PrismaClient } from '@prisma/client';
+import MurmurService, { Murmur } from './Murmur';
+import FollowService from './Follow';
+import { ScoreExplanation, forYouWeights, scoreCandidate } from '../lib/ranking';
+
+const prisma = new PrismaClient();
+
+// Only murmurs this recent are considered
+const CANDIDATE_WINDOW_HOURS = 72;
+// How far back the viewer's interactions count towards affinity with an author
+const AFFINITY_WINDOW_DAYS = 30;
+// Caps on each candidate source, to bound the work per request
+const MAX_FOLLOWED_CANDIDATES = 300;
+const MAX_AFFINITY_AUTHORS = 50;
+const MAX_AFFINITY_CANDIDATES = 150;
+const MAX_TRENDING_CANDIDATES = 100;
+
+export type CandidateSource = 'following' | 'affinity' | 'trending';
+
+export type RankedMurmur = {
+  murmur: Murmur;
+  score: number;
+  explanation: ScoreExplanation & { sources: CandidateSource[]; interactions: number };
+};
+
+export interface ForYouOptions {
+  limit?: number;
+  offset?: number;
+}
+
+export class ForYouService {
+  // Weighted count of a user's recent likes, replies and remurmurs/quotes per author
+  static async getInteractionCounts(userId: string): Promise<Map<string, number>> {
+    const since = new Date(Date.now() - AFFINITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+    const rows = await prisma.$queryRaw<{ authorId: string; interactions: number }[]>`
+      SELECT "authorId", sum("weight")::float AS "interactions"
+      FROM (
+        SELECT m."userId" AS "authorId", 1 AS "weight"
+        FROM "likes" l
+        JOIN "murmurs" m ON m."id" = l."murmurId"
+        WHERE l."userId" = ${userId} AND l."createdAt" >= ${since}
+
+        UNION ALL
+
+        SELECT parent."userId", 2
+        FROM "murmurs" reply
+        JOIN "murmurs" parent ON parent."id" = reply."replyToId"
+        WHERE reply."userId" = ${userId} AND reply."createdAt" >= ${since} AND reply."isDeleted" = false
+
+        UNION ALL
+
+        SELECT original."userId", 2
+        FROM "murmurs" repost
+        JOIN "murmurs" original ON original."id" = coalesce(repost."remurmurOfId", repost."quoteOfId")
+        WHERE repost."userId" = ${userId} AND repost."createdAt" >= ${since} AND repost."isDeleted" = false
+      ) interactions
+      WHERE "authorId" <> ${userId}
+      GROUP BY "authorId"
+      ORDER BY "interactions" DESC
+      LIMIT ${MAX_AFFINITY_AUTHORS}
+    `;
+
+    return new Map(rows.map(row => [row.authorId, Number(row.interactions)]));
+  }
+
+  // Ranked home feed: candidates from followed accounts, accounts the viewer
+  // interacts with and trending murmurs, scored by recency, engagement and affinity
+  static async getFeed(viewerId: string, options: ForYouOptions = {}): Promise<{
+    murmurs: RankedMurmur[];
+    hasMore: boolean;
+    totalCount: number;
+  }> {
+    const limit = options.limit ?? 10;
+    const offset = options.offset ?? 0;
+    const since = new Date(Date.now() - CANDIDATE_WINDOW_HOURS * 60 * 60 * 1000);
+
+    const [followingIds, interactionCounts] = await Promise.all([
+      FollowService.getFollowingIds(viewerId),
+      this.getInteractionCounts(viewerId),
+    ]);
+    const following = new Set(followingIds);
+
+    const [followed, affinity, trending] = await Promise.all([
+      MurmurService.getRecentByAuthors(viewerId, followingIds, since, MAX_FOLLOWED_CANDIDATES),
+      MurmurService.getRecentByAuthors(
+        viewerId,
+        [...interactionCounts.keys()].filter(id => !following.has(id)),
+        since,
+        MAX_AFFINITY_CANDIDATES
+      ),
+      MurmurService.getPopularSince(viewerId, since, MAX_TRENDING_CANDIDATES),
+    ]);
+
+    // A murmur can come from several sources; keep one entry and note them all
+    const candidates = new Map<string, { murmur: Murmur; sources: CandidateSource[] }>();
+    const addCandidates = (murmurs: Murmur[], source: CandidateSource) => {
+      murmurs.forEach(murmur => {
+        const candidate = candidates.get(murmur.id) ?? { murmur, sources: [] };
+        candidate.sources.push(source);
+        candidates.set(murmur.id, candidate);
+      });
+    };
+    addCandidates(followed, 'following');
+    addCandidates(affinity, 'affinity');
+    addCandidates(trending, 'trending');
+
+    const now = Date.now();
+    const ranked = [...candidates.values()]
+      .map(({ murmur, sources }): RankedMurmur => {
+        const interactions = interactionCounts.get(murmur.userId) ?? 0;
+        const explanation = scoreCandidate({
+          ageHours: (now - murmur.createdAt.getTime()) / (60 * 60 * 1000),
+          likesCount: murmur.likesCount,
+          repliesCount: murmur.repliesCount,
+          retweetsCount: murmur.retweetsCount,
+          interactions,
+          isFollowing: following.has(murmur.userId),
+          isTrending: sources.includes('trending'),
+        }, forYouWeights);
+
+        return {
+          murmur,
+          score: explanation.score,
+          explanation: { ...explanation, sources, interactions },
+        };
+      })
+      .sort((a, b) => b.score - a.score || b.murmur.createdAt.getTime() - a.murmur.createdAt.getTime());
+
+    return {
+      murmurs: ranked.slice(offset, offset + limit),
+      hasMore: offset + limit < ranked.length,
+      totalCount: ranked.length,
+    };
+  }
+}
+
+export default ForYouService;
@@ -0,0 +1,129 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { extractHashtags } from '../lib/entities';
+
+const prisma = new PrismaClient();
+
+// Tags need this many uses in the current window to trend at all
+const MIN_TRENDING_USES = 3;
+
+// Type for Hashtag model from Prisma
+type Hashtag = {
+  id: string;
+  tag: string;
+  createdAt: Date;
+};
+
+export type TrendingHashtag = {
+  tag: string;
+  count: number;
+  previousCount: number;
+  score: number;
+};
+
+export class HashtagService {
+  // Find hashtag by its normalized tag
+  static async findByTag(tag: string): Promise<Hashtag | null> {
+    return await prisma.hashtag.findUnique({
+      where: { tag },
+    });
+  }
+
+  // Make a murmur's hashtag links match its content. Tags that were already
+  // linked keep their original timestamp. Must run in the murmur's transaction.
+  static async syncForMurmur(tx: Prisma.TransactionClient, murmurId: string, content: string): Promise<void> {
+    const tags = extractHashtags(content);
+
+    await tx.murmurHashtag.deleteMany({
+      where: {
+        murmurId,
+        hashtag: { tag: { notIn: tags } },
+      },
+    });
+
+    if (tags.length === 0) return;
+
+    await tx.hashtag.createMany({
+      data: tags.map(tag => ({ tag })),
+      skipDuplicates: true,
+    });
+
+    const hashtags = await tx.hashtag.findMany({
+      where: { tag: { in: tags } },
+      select: { id: true },
+    });
+
+    await tx.murmurHashtag.createMany({
+      data: hashtags.map(hashtag => ({ murmurId, hashtagId: hashtag.id })),
+      skipDuplicates: true,
+    });
+  }
+
+  // Remove all of a murmur's hashtag links
+  static async removeForMurmur(tx: Prisma.TransactionClient, murmurId: string): Promise<void> {
+    await tx.murmurHashtag.deleteMany({
+      where: { murmurId },
+    });
+  }
+
+  // Rank hashtags by how fast their use is growing: uses in the latest window
+  // compared with the window before it. Dividing by the square root of the
+  // previous count lets a jump from 5 to 50 outrank a steady 500. Only uses in
+  // murmurs matching visibleMurmurs count (see buildVisibilityWhere), so tags
+  // used only where the viewer can't see them don't trend.
+  static async getTrending(
+    windowHours: number = 24,
+    limit: number = 10,
+    visibleMurmurs: Prisma.MurmurWhereInput = {}
+  ): Promise<TrendingHashtag[]> {
+    const windowMs = windowHours * 60 * 60 * 1000;
+    const now = Date.now();
+    const windowStart = new Date(now - windowMs);
+    const previousWindowStart = new Date(now - 2 * windowMs);
+
+    const [current, previous] = await Promise.all([
+      prisma.murmurHashtag.groupBy({
+        by: ['hashtagId'],
+        where: { createdAt: { gte: windowStart }, murmur: visibleMurmurs },
+        _count: { _all: true },
+      }),
+      prisma.murmurHashtag.groupBy({
+        by: ['hashtagId'],
+        where: { createdAt: { gte: previousWindowStart, lt: windowStart }, murmur: visibleMurmurs },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const previousCounts = new Map(previous.map(row => [row.hashtagId, row._count._all]));
+
+    const ranked = current
+      .filter(row => row._count._all >= MIN_TRENDING_USES)
+      .map(row => {
+        const count = row._count._all;
+        const previousCount = previousCounts.get(row.hashtagId) ?? 0;
+        return {
+          hashtagId: row.hashtagId,
+          count,
+          previousCount,
+          score: (count - previousCount) / Math.sqrt(previousCount + 1),
+        };
+      })
+      .filter(row => row.score > 0)
+      .sort((a, b) => b.score - a.score || b.count - a.count)
+      .slice(0, limit);
+
+    const hashtags = await prisma.hashtag.findMany({
+      where: { id: { in: ranked.map(row => row.hashtagId) } },
+      select: { id: true, tag: true },
+    });
+    const tagsById = new Map(hashtags.map(hashtag => [hashtag.id, hashtag.tag]));
+
+    return ranked.map(row => ({
+      tag: tagsById.get(row.hashtagId)!,
+      count: row.count,
+      previousCount: row.previousCount,
+      score: Math.round(row.score * 100) / 100,
+    }));
+  }
+}
+
+export default HashtagService;
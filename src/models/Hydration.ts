@@ -0,0 +1,85 @@
+import LikeService from './Like';
+import FollowService from './Follow';
+import BookmarkService from './Bookmark';
+import PollService, { PollView } from './Poll';
+import MurmurService, { Murmur, MurmurAuthor } from './Murmur';
+
+// Anything shaped like a murmur row, with the embedded originals of remurmurs/quotes
+type HydratableMurmur = Omit<Murmur, 'user' | 'remurmurOf' | 'quoteOf'> & {
+  user?: MurmurAuthor;
+  remurmurOf?: HydratableMurmur | null;
+  quoteOf?: HydratableMurmur | null;
+};
+
+export interface ViewerState {
+  isLikedByUser: boolean;
+  isRemurmured: boolean;
+  isBookmarked: boolean;
+}
+
+export type HydratedMurmur = Omit<HydratableMurmur, 'user' | 'poll' | 'remurmurOf' | 'quoteOf'> & ViewerState & {
+  user?: MurmurAuthor & { isFollowing: boolean };
+  poll?: PollView | null;
+  remurmurOf?: HydratedMurmur | null;
+  quoteOf?: HydratedMurmur | null;
+};
+
+export class HydrationService {
+  // Fill in the viewer's state (likes, remurmurs, bookmarks, follows, poll votes) for a
+  // whole page of murmurs, including embedded originals, with one query per kind of state
+  static async hydrate(murmurs: HydratableMurmur[], viewerId?: string): Promise<HydratedMurmur[]> {
+    const all: HydratableMurmur[] = [];
+    murmurs.forEach(murmur => {
+      all.push(murmur);
+      if (murmur.remurmurOf) all.push(murmur.remurmurOf);
+      if (murmur.quoteOf) all.push(murmur.quoteOf);
+    });
+
+    const murmurIds = [...new Set(all.map(murmur => murmur.id))];
+    const authorIds = [...new Set(all.map(murmur => murmur.userId))];
+    const pollIds = [...new Set(all.flatMap(murmur => murmur.poll ? [murmur.poll.id] : []))];
+
+    const [likedIds, remurmuredIds, bookmarkedIds, followingIds, votedOptionIds] = viewerId
+      ? await Promise.all([
+        LikeService.getLikedMurmurIds(viewerId, murmurIds),
+        MurmurService.getRemurmuredIds(viewerId, murmurIds),
+        BookmarkService.getBookmarkedIds(viewerId, murmurIds),
+        FollowService.getFollowingIdsAmong(viewerId, authorIds),
+        PollService.getVotedOptionIds(viewerId, pollIds),
+      ])
+      : [new Set<string>(), new Set<string>(), new Set<string>(), new Set<string>(), new Map<string, string>()];
+
+    const decorate = ({ user, poll, remurmurOf, quoteOf, ...murmur }: HydratableMurmur): HydratedMurmur => ({
+      ...murmur,
+      ...(user && {
+        user: {
+          ...user,
+          isFollowing: followingIds.has(murmur.userId),
+        },
+      }),
+      ...(poll !== undefined && {
+        poll: poll ? PollService.toView(poll, votedOptionIds.get(poll.id) ?? null) : null,
+      }),
+      ...(remurmurOf !== undefined && {
+        remurmurOf: remurmurOf ? decorate(remurmurOf) : null,
+      }),
+      // A quoted murmur that has since been deleted is shown as unavailable
+      ...(quoteOf !== undefined && {
+        quoteOf: quoteOf && !quoteOf.isDeleted ? decorate(quoteOf) : null,
+      }),
+      isLikedByUser: likedIds.has(murmur.id),
+      isRemurmured: remurmuredIds.has(murmur.id),
+      isBookmarked: bookmarkedIds.has(murmur.id),
+    });
+
+    return murmurs.map(decorate);
+  }
+
+  // Hydrate a single murmur
+  static async hydrateOne(murmur: HydratableMurmur, viewerId?: string): Promise<HydratedMurmur> {
+    const [hydrated] = await this.hydrate([murmur], viewerId);
+    return hydrated!;
+  }
+}
+
+export default HydrationService;
@@ -1,4 +1,6 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { PageInfo, timeCursorWhere, toPage } from '../lib/pagination';
+import { FeedOptions, buildVisibilityWhere, murmurInclude } from './Murmur';
 
 const prisma = new PrismaClient();
 
@@ -107,49 +109,42 @@ export class LikeService {
     return { likes, totalCount };
   }
 
-  // Get likes by user
-  static async getLikesByUser(userId: string, limit: number = 20, offset: number = 0): Promise<{
+  // Get likes by user, newest first
+  static async getLikesByUser(userId: string, options: FeedOptions = {}): Promise<{
     likes: Like[];
-    totalCount: number;
-  }> {
-    const likes = await prisma.like.findMany({
-      where: {
-        userId,
-        murmur: {
-          replyToId: null,
-          isDeleted: false,
-        },
+  } & PageInfo> {
+    const limit = options.limit ?? 20;
+    const where: Prisma.LikeWhereInput = {
+      userId,
+      murmur: {
+        AND: [
+          { replyToId: null, isDeleted: false },
+          await buildVisibilityWhere(options.viewerId),
+        ],
       },
+    };
+
+    const rows = await prisma.like.findMany({
+      where: options.cursor ? { AND: [where, timeCursorWhere(options.cursor)] } : where,
       include: {
         murmur: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                username: true,
-                displayName: true,
-                avatar: true,
-              },
-            },
-          },
+          include: murmurInclude,
         },
       },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(!options.cursor && options.offset && { skip: options.offset }),
     });
 
-    const totalCount = await prisma.like.count({
-      where: {
-        userId,
-        murmur: {
-          replyToId: null,
-          isDeleted: false,
-        },
-      },
-    });
+    const { items, hasMore, nextCursor } = toPage(rows, limit);
+    const totalCount = options.includeTotal ? await prisma.like.count({ where }) : undefined;
 
-    return { likes, totalCount };
+    return {
+      likes: items,
+      hasMore,
+      nextCursor,
+      ...(totalCount !== undefined && { totalCount }),
+    };
   }
 
   // Get recent likes for a murmur
@@ -178,9 +173,14 @@ export class LikeService {
     });
   }
 
-  // Delete all likes for a user (when user is deleted)
-  static async deleteAllByUser(userId: string): Promise<void> {
-    await prisma.like.deleteMany({
+  // Delete all likes for a user (when user is deleted), updating the liked
+  // murmurs' counts
+  static async deleteAllByUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    await tx.murmur.updateMany({
+      where: { likes: { some: { userId } } },
+      data: { likesCount: { decrement: 1 } },
+    });
+    await tx.like.deleteMany({
       where: { userId },
     });
   }
@@ -229,6 +229,21 @@ export class LikeService {
     return likedMap;
   }
 
+  // Get which of the given murmurs a user has liked
+  static async getLikedMurmurIds(userId: string, murmurIds: string[]): Promise<Set<string>> {
+    if (murmurIds.length === 0) return new Set();
+
+    const likes = await prisma.like.findMany({
+      where: {
+        userId,
+        murmurId: { in: murmurIds },
+      },
+      select: { murmurId: true },
+    });
+
+    return new Set(likes.map((like: any) => like.murmurId));
+  }
+
   // Get users who liked multiple murmurs
   static async getUsersWhoLikedMurmurs(murmurIds: string[]): Promise<Record<string, string[]>> {
     const likes = await prisma.like.findMany({
@@ -0,0 +1,284 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Most accounts one list can hold
+export const MAX_LIST_MEMBERS = 500;
+
+// Type for List model from Prisma
+type List = {
+  id: string;
+  ownerId: string;
+  name: string;
+  description: string | null;
+  isPrivate: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type ListWithCounts = List & {
+  owner: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatar: string | null;
+  };
+  membersCount: number;
+  subscribersCount: number;
+};
+
+export interface IListCreate {
+  name: string;
+  description?: string | undefined;
+  isPrivate?: boolean | undefined;
+}
+
+export interface IListUpdate {
+  name?: string | undefined;
+  description?: string | null | undefined;
+  isPrivate?: boolean | undefined;
+}
+
+const userSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  displayName: true,
+  avatar: true,
+});
+
+const listInclude = Prisma.validator<Prisma.ListInclude>()({
+  owner: { select: userSelect },
+  _count: {
+    select: {
+      members: true,
+      subscriptions: true,
+    },
+  },
+});
+
+const withCounts = ({ _count, ...list }: Prisma.ListGetPayload<{ include: typeof listInclude }>): ListWithCounts => ({
+  ...list,
+  membersCount: _count.members,
+  subscribersCount: _count.subscriptions,
+});
+
+export class ListService {
+  // Create a list
+  static async create(ownerId: string, data: IListCreate): Promise<ListWithCounts> {
+    const list = await prisma.list.create({
+      data: {
+        ownerId,
+        name: data.name,
+        ...(data.description && { description: data.description }),
+        ...(data.isPrivate !== undefined && { isPrivate: data.isPrivate }),
+      },
+      include: listInclude,
+    });
+
+    return withCounts(list);
+  }
+
+  // Find list by ID
+  static async findById(id: string): Promise<ListWithCounts | null> {
+    const list = await prisma.list.findUnique({
+      where: { id },
+      include: listInclude,
+    });
+
+    return list ? withCounts(list) : null;
+  }
+
+  // Update a list. Making it private drops everyone else's subscriptions.
+  static async update(id: string, data: IListUpdate): Promise<ListWithCounts> {
+    const list = await prisma.$transaction(async (tx) => {
+      if (data.isPrivate) {
+        await tx.listSubscription.deleteMany({
+          where: { listId: id },
+        });
+      }
+
+      return await tx.list.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.isPrivate !== undefined && { isPrivate: data.isPrivate }),
+        },
+        include: listInclude,
+      });
+    });
+
+    return withCounts(list);
+  }
+
+  // Delete a list with its members and subscriptions
+  static async delete(id: string): Promise<boolean> {
+    try {
+      await prisma.list.delete({
+        where: { id },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Get lists owned by a user, newest first; private ones only when asked for
+  static async getUserLists(ownerId: string, includePrivate: boolean, limit: number = 20, offset: number = 0): Promise<{
+    lists: ListWithCounts[];
+    totalCount: number;
+  }> {
+    const where: Prisma.ListWhereInput = {
+      ownerId,
+      ...(!includePrivate && { isPrivate: false }),
+    };
+
+    const [lists, totalCount] = await Promise.all([
+      prisma.list.findMany({
+        where,
+        include: listInclude,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      prisma.list.count({ where }),
+    ]);
+
+    return { lists: lists.map(withCounts), totalCount };
+  }
+
+  // Get public lists a user subscribes to, most recently subscribed first
+  static async getSubscribedLists(userId: string, limit: number = 20, offset: number = 0): Promise<{
+    lists: ListWithCounts[];
+    totalCount: number;
+  }> {
+    const where: Prisma.ListSubscriptionWhereInput = {
+      userId,
+      list: { isPrivate: false },
+    };
+
+    const [subscriptions, totalCount] = await Promise.all([
+      prisma.listSubscription.findMany({
+        where,
+        include: { list: { include: listInclude } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.listSubscription.count({ where }),
+    ]);
+
+    return { lists: subscriptions.map(subscription => withCounts(subscription.list)), totalCount };
+  }
+
+  // Check if a user is on a list
+  static async isMember(listId: string, userId: string): Promise<boolean> {
+    const member = await prisma.listMember.findUnique({
+      where: {
+        listId_userId: {
+          listId,
+          userId,
+        },
+      },
+    });
+    return !!member;
+  }
+
+  // Add a user to a list
+  static async addMember(listId: string, userId: string): Promise<void> {
+    await prisma.listMember.create({
+      data: {
+        listId,
+        userId,
+      },
+    });
+  }
+
+  // Remove a user from a list
+  static async removeMember(listId: string, userId: string): Promise<boolean> {
+    try {
+      await prisma.listMember.delete({
+        where: {
+          listId_userId: {
+            listId,
+            userId,
+          },
+        },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Get a list's members, most recently added first
+  static async getMembers(listId: string, limit: number = 20, offset: number = 0): Promise<{
+    users: any[];
+    totalCount: number;
+  }> {
+    const members = await prisma.listMember.findMany({
+      where: { listId },
+      include: {
+        user: {
+          select: {
+            ...userSelect,
+            bio: true,
+            followersCount: true,
+            followingCount: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+
+    const totalCount = await prisma.listMember.count({
+      where: { listId },
+    });
+
+    return { users: members.map((member: any) => member.user), totalCount };
+  }
+
+  // Check if a user subscribes to a list
+  static async isSubscribed(listId: string, userId: string): Promise<boolean> {
+    const subscription = await prisma.listSubscription.findUnique({
+      where: {
+        listId_userId: {
+          listId,
+          userId,
+        },
+      },
+    });
+    return !!subscription;
+  }
+
+  // Subscribe to a list
+  static async subscribe(listId: string, userId: string): Promise<void> {
+    await prisma.listSubscription.create({
+      data: {
+        listId,
+        userId,
+      },
+    });
+  }
+
+  // Unsubscribe from a list
+  static async unsubscribe(listId: string, userId: string): Promise<boolean> {
+    try {
+      await prisma.listSubscription.delete({
+        where: {
+          listId_userId: {
+            listId,
+            userId,
+          },
+        },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export default ListService;
@@ -0,0 +1,158 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { getStorage } from '../lib/storage';
+import { buildStorageKey } from '../lib/media';
+
+const prisma = new PrismaClient();
+
+export const MAX_MEDIA_PER_MURMUR = 4;
+
+// Type for Media model from Prisma
+type Media = {
+  id: string;
+  userId: string;
+  murmurId: string | null;
+  position: number;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  altText: string | null;
+  storageKey: string;
+  url: string;
+  createdAt: Date;
+};
+
+export interface IMediaCreate {
+  data: Buffer;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  altText?: string | null;
+}
+
+// Fields embedded in murmur responses
+export const mediaSelect = Prisma.validator<Prisma.MediaSelect>()({
+  id: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  altText: true,
+  url: true,
+});
+
+export type MurmurMedia = Prisma.MediaGetPayload<{ select: typeof mediaSelect }>;
+
+export class MediaService {
+  // Store an uploaded file and record it, not yet attached to any murmur
+  static async create(userId: string, mediaData: IMediaCreate): Promise<Media> {
+    const storage = getStorage();
+    const storageKey = buildStorageKey('media', userId, mediaData.mimeType);
+    const url = await storage.put(storageKey, mediaData.data, mediaData.mimeType);
+
+    try {
+      return await prisma.media.create({
+        data: {
+          userId,
+          mimeType: mediaData.mimeType,
+          size: mediaData.data.length,
+          width: mediaData.width,
+          height: mediaData.height,
+          altText: mediaData.altText ?? null,
+          storageKey,
+          url,
+        },
+      });
+    } catch (error) {
+      await storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  // Find media by ID
+  static async findById(id: string): Promise<Media | null> {
+    return await prisma.media.findUnique({
+      where: { id },
+    });
+  }
+
+  // Check that every ID is an upload of the user's that no murmur uses yet. A
+  // repeated ID fails, since an upload can only be attached once.
+  static async areAttachable(userId: string, ids: string[]): Promise<boolean> {
+    const count = await prisma.media.count({
+      where: {
+        id: { in: ids },
+        userId,
+        murmurId: null,
+      },
+    });
+
+    return count === ids.length;
+  }
+
+  // Attach uploads to a murmur in the given order. Must run in the murmur's transaction.
+  static async attachToMurmur(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    murmurId: string,
+    ids: string[]
+  ): Promise<void> {
+    for (const [position, id] of ids.entries()) {
+      const result = await tx.media.updateMany({
+        where: {
+          id,
+          userId,
+          murmurId: null,
+        },
+        data: {
+          murmurId,
+          position,
+        },
+      });
+
+      if (result.count === 0) {
+        throw new Error(`Media ${id} cannot be attached`);
+      }
+    }
+  }
+
+  // Update alt text
+  static async updateAltText(id: string, altText: string | null): Promise<Media> {
+    return await prisma.media.update({
+      where: { id },
+      data: { altText },
+    });
+  }
+
+  // Delete media and its stored file
+  static async delete(id: string): Promise<boolean> {
+    try {
+      const media = await prisma.media.delete({
+        where: { id },
+      });
+      await getStorage().delete(media.storageKey);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Get the storage keys of all of a user's media, so the files can be removed
+  // once the rows are gone
+  static async getStorageKeysForUser(userId: string): Promise<string[]> {
+    const media = await prisma.media.findMany({
+      where: { userId },
+      select: { storageKey: true },
+    });
+
+    return media.map((item: any) => item.storageKey);
+  }
+
+  // Delete stored media files whose rows were already removed
+  static async deleteStoredFiles(storageKeys: string[]): Promise<void> {
+    const storage = getStorage();
+    await Promise.all(storageKeys.map(key => storage.delete(key)));
+  }
+}
+
+export default MediaService;
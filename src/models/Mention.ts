@@ -0,0 +1,66 @@
+import { Prisma } from '@prisma/client';
+import { extractMentions } from '../lib/entities';
+
+// Mention entities embedded in murmur responses, in reading order
+export const mentionInclude = Prisma.validator<Prisma.Murmur$mentionsArgs>()({
+  select: {
+    userId: true,
+    start: true,
+    end: true,
+    user: { select: { username: true } },
+  },
+  orderBy: { start: 'asc' },
+});
+
+export type MurmurMention = Prisma.MentionGetPayload<typeof mentionInclude>;
+
+export class MentionService {
+  // Store the murmur's @mentions of existing users with their offsets, replacing
+  // any from a previous version. Unknown usernames stay plain text. Must run in
+  // the murmur's transaction.
+  static async syncForMurmur(tx: Prisma.TransactionClient, murmurId: string, content: string): Promise<void> {
+    await tx.mention.deleteMany({
+      where: { murmurId },
+    });
+
+    const mentions = extractMentions(content);
+    if (mentions.length === 0) return;
+
+    const usernames = [...new Set(mentions.map(mention => mention.username))];
+    const users = await tx.user.findMany({
+      where: {
+        username: { in: usernames, mode: 'insensitive' },
+        isActive: true,
+      },
+      select: { id: true, username: true },
+    });
+
+    // Usernames match regardless of case; an exact match wins if two users
+    // differ only in case
+    const userIds = new Map<string, string>();
+    users.forEach(user => {
+      const key = user.username.toLowerCase();
+      if (!userIds.has(key) || usernames.includes(user.username)) userIds.set(key, user.id);
+    });
+
+    const data = mentions
+      .filter(mention => userIds.has(mention.username.toLowerCase()))
+      .map(mention => ({
+        murmurId,
+        userId: userIds.get(mention.username.toLowerCase())!,
+        start: mention.start,
+        end: mention.end,
+      }));
+
+    if (data.length > 0) {
+      await tx.mention.createMany({ data });
+    }
+  }
+
+  // IDs of users mentioned in a murmur
+  static getMentionedUserIds(murmur: { mentions?: { userId: string }[] }): string[] {
+    return [...new Set((murmur.mentions ?? []).map(mention => mention.userId))];
+  }
+}
+
+export default MentionService;
@@ -0,0 +1,124 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { PageInfo, PageOptions, timeCursorWhere, toPage } from '../lib/pagination';
+
+const prisma = new PrismaClient();
+
+export const MAX_MESSAGE_LENGTH = 1000;
+
+// Type for Message model from Prisma
+export type Message = {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  isDeleted: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  sender?: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatar: string | null;
+  };
+};
+
+const messageInclude = Prisma.validator<Prisma.MessageInclude>()({
+  sender: {
+    select: {
+      id: true,
+      username: true,
+      displayName: true,
+      avatar: true,
+    },
+  },
+});
+
+export class MessageService {
+  // Send a message. The conversation moves to the top of everyone's list and the
+  // sender's read receipt moves past their own message.
+  static async create(conversationId: string, senderId: string, content: string): Promise<Message> {
+    return await prisma.$transaction(async (tx) => {
+      const message = await tx.message.create({
+        data: {
+          conversationId,
+          senderId,
+          content,
+        },
+        include: messageInclude,
+      });
+
+      await tx.conversation.update({
+        where: { id: conversationId },
+        data: { lastMessageAt: message.createdAt },
+      });
+      await tx.conversationParticipant.update({
+        where: {
+          conversationId_userId: {
+            conversationId,
+            userId: senderId,
+          },
+        },
+        data: { lastReadAt: message.createdAt },
+      });
+
+      return message;
+    });
+  }
+
+  // Find message by ID
+  static async findById(id: string): Promise<Message | null> {
+    return await prisma.message.findFirst({
+      where: {
+        id,
+        isDeleted: false,
+      },
+      include: messageInclude,
+    });
+  }
+
+  // Get a conversation's messages newest first, leaving out deleted ones and
+  // anything sent before the given time (when the viewer joined)
+  static async getMessages(conversationId: string, since: Date, options: PageOptions = {}): Promise<{
+    messages: Message[];
+  } & PageInfo> {
+    const limit = options.limit ?? 30;
+    const where: Prisma.MessageWhereInput = {
+      conversationId,
+      isDeleted: false,
+      createdAt: { gte: since },
+    };
+
+    const rows = await prisma.message.findMany({
+      where: options.cursor ? { AND: [where, timeCursorWhere(options.cursor)] } : where,
+      include: messageInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(!options.cursor && options.offset && { skip: options.offset }),
+    });
+
+    const { items, hasMore, nextCursor } = toPage(rows, limit);
+    const totalCount = options.includeTotal ? await prisma.message.count({ where }) : undefined;
+
+    return {
+      messages: items,
+      hasMore,
+      nextCursor,
+      ...(totalCount !== undefined && { totalCount }),
+    };
+  }
+
+  // Soft delete a message
+  static async softDelete(id: string): Promise<boolean> {
+    try {
+      await prisma.message.update({
+        where: { id },
+        data: { isDeleted: true },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export default MessageService;
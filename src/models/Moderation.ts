@@ -0,0 +1,206 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate',
+  'violence',
+  'self_harm',
+  'sexual_content',
+  'misinformation',
+  'impersonation',
+  'other',
+] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+export type ReportTargetType = 'murmur' | 'user';
+export type ModerationCaseStatus = 'open' | 'actioned' | 'dismissed';
+export type ModerationAction = 'hide_murmur' | 'deactivate_user' | 'dismiss';
+
+export const MODERATION_ACTIONS: ModerationAction[] = ['hide_murmur', 'deactivate_user', 'dismiss'];
+export const MODERATION_CASE_STATUSES: ModerationCaseStatus[] = ['open', 'actioned', 'dismissed'];
+
+export interface IReportCreate {
+  reason: ReportReason;
+  details?: string | undefined;
+}
+
+// What a report is about: a murmur (and its author) or a user
+export type ReportTarget =
+  | { type: 'murmur'; murmurId: string; userId: string }
+  | { type: 'user'; userId: string };
+
+const userSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  displayName: true,
+  avatar: true,
+});
+
+const caseInclude = Prisma.validator<Prisma.ModerationCaseInclude>()({
+  murmur: {
+    select: {
+      id: true,
+      content: true,
+      isDeleted: true,
+      createdAt: true,
+    },
+  },
+  targetUser: {
+    select: {
+      ...userSelect,
+      isActive: true,
+    },
+  },
+  resolvedBy: { select: userSelect },
+});
+
+export type ModerationCase = Prisma.ModerationCaseGetPayload<{ include: typeof caseInclude }>;
+
+// Key of the open case for a target; reports about the same target share it
+const openKeyFor = (target: ReportTarget): string => {
+  return target.type === 'murmur' ? `murmur:${target.murmurId}` : `user:${target.userId}`;
+};
+
+export class ModerationService {
+  // File a report. It joins the open case about the same target, or opens one.
+  // Returns null when the reporter has already reported that case.
+  static async report(reporterId: string, target: ReportTarget, data: IReportCreate) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const moderationCase = await tx.moderationCase.upsert({
+          where: { openKey: openKeyFor(target) },
+          create: {
+            targetType: target.type,
+            targetUserId: target.userId,
+            ...(target.type === 'murmur' && { murmurId: target.murmurId }),
+            openKey: openKeyFor(target),
+          },
+          update: {},
+        });
+
+        const report = await tx.report.create({
+          data: {
+            caseId: moderationCase.id,
+            reporterId,
+            reason: data.reason,
+            ...(data.details && { details: data.details }),
+          },
+        });
+
+        await tx.moderationCase.update({
+          where: { id: moderationCase.id },
+          data: { reportsCount: { increment: 1 } },
+        });
+
+        return report;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Get the moderation queue. Open cases come most reported first, then oldest
+  // first; resolved ones most recently resolved first.
+  static async getCases(
+    status: ModerationCaseStatus,
+    targetType?: ReportTargetType,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{
+    cases: ModerationCase[];
+    totalCount: number;
+  }> {
+    const where: Prisma.ModerationCaseWhereInput = {
+      status,
+      ...(targetType && { targetType }),
+    };
+
+    const [cases, totalCount] = await Promise.all([
+      prisma.moderationCase.findMany({
+        where,
+        include: caseInclude,
+        orderBy: status === 'open'
+          ? [{ reportsCount: 'desc' }, { createdAt: 'asc' }]
+          : [{ resolvedAt: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      prisma.moderationCase.count({ where }),
+    ]);
+
+    return { cases, totalCount };
+  }
+
+  // Find case by ID
+  static async findCaseById(id: string): Promise<ModerationCase | null> {
+    return await prisma.moderationCase.findUnique({
+      where: { id },
+      include: caseInclude,
+    });
+  }
+
+  // Get the reports grouped into a case, oldest first
+  static async getCaseReports(caseId: string) {
+    return await prisma.report.findMany({
+      where: { caseId },
+      include: {
+        reporter: { select: userSelect },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Get who reported a case
+  static async getReporterIds(caseId: string): Promise<string[]> {
+    const reports = await prisma.report.findMany({
+      where: { caseId },
+      select: { reporterId: true },
+    });
+
+    return reports.map((report: any) => report.reporterId);
+  }
+
+  // Remove all reports a user made (when user is deleted), updating the counts
+  // of the cases they were in
+  static async removeAllReportsForUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    await tx.moderationCase.updateMany({
+      where: { reports: { some: { reporterId: userId } } },
+      data: { reportsCount: { decrement: 1 } },
+    });
+    await tx.report.deleteMany({
+      where: { reporterId: userId },
+    });
+  }
+
+  // Close an open case with the moderator's action. Later reports about the same
+  // target open a new case. Returns null when the case was already resolved.
+  static async resolveCase(
+    id: string,
+    moderatorId: string,
+    action: ModerationAction,
+    note?: string
+  ): Promise<ModerationCase | null> {
+    const { count } = await prisma.moderationCase.updateMany({
+      where: { id, status: 'open' },
+      data: {
+        status: action === 'dismiss' ? 'dismissed' : 'actioned',
+        action,
+        openKey: null,
+        resolvedById: moderatorId,
+        resolvedAt: new Date(),
+        ...(note && { resolutionNote: note }),
+      },
+    });
+    if (count === 0) return null;
+
+    return await this.findCaseById(id);
+  }
+}
+
+export default ModerationService;
@@ -1,51 +1,256 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { publishMurmurEvent } from '../lib/events';
+import { PageInfo, PageOptions, timeCursorWhere, toPage } from '../lib/pagination';
+import { HEADLINE_OPTIONS, SEARCH_CONFIG, buildTsQuery } from '../lib/search';
+import { TRENDING_GRAVITY, TRENDING_MAX_AGE_HOURS, TRENDING_WEIGHTS } from '../lib/ranking';
+import BlockService from './Block';
+import MuteService from './Mute';
+import MediaService, { MurmurMedia, mediaSelect } from './Media';
+import HashtagService from './Hashtag';
+import MentionService, { MurmurMention, mentionInclude } from './Mention';
+import PollService, { IPollCreate, MurmurPoll, pollInclude } from './Poll';
 
 const prisma = new PrismaClient();
 
+export type MurmurAuthor = {
+  id: string;
+  username: string;
+  displayName: string;
+  avatar: string | null;
+  isPrivate: boolean;
+};
+
 // Type for Murmur model from Prisma
-type Murmur = {
+export type Murmur = {
   id: string;
   userId: string;
   content: string;
   replyToId: string | null;
+  remurmurOfId: string | null;
+  quoteOfId: string | null;
   likesCount: number;
   repliesCount: number;
   retweetsCount: number;
+  editCount: number;
+  editedAt: Date | null;
   isDeleted: boolean;
   createdAt: Date;
   updatedAt: Date;
-  user?: {
-    id: string;
-    username: string;
-    displayName: string;
-    avatar: string | null;
+  user?: MurmurAuthor;
+  media?: MurmurMedia[];
+  mentions?: MurmurMention[];
+  poll?: MurmurPoll | null;
+  remurmurOf?: (Omit<Murmur, 'remurmurOf' | 'quoteOf'> & { user: MurmurAuthor }) | null;
+  quoteOf?: (Omit<Murmur, 'remurmurOf' | 'quoteOf'> & { user: MurmurAuthor }) | null;
+};
+
+type MurmurRevision = {
+  id: string;
+  murmurId: string;
+  content: string;
+  createdAt: Date;
+};
+
+const authorSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  displayName: true,
+  avatar: true,
+  isPrivate: true,
+});
+
+const mediaInclude = Prisma.validator<Prisma.Murmur$mediaArgs>()({
+  select: mediaSelect,
+  orderBy: { position: 'asc' },
+});
+
+// Remurmurs and quotes embed the original murmur with its author, entities and poll
+export const murmurInclude = Prisma.validator<Prisma.MurmurInclude>()({
+  user: { select: authorSelect },
+  media: mediaInclude,
+  mentions: mentionInclude,
+  poll: pollInclude,
+  remurmurOf: { include: { user: { select: authorSelect }, media: mediaInclude, mentions: mentionInclude, poll: pollInclude } },
+  quoteOf: { include: { user: { select: authorSelect }, media: mediaInclude, mentions: mentionInclude, poll: pollInclude } },
+});
+
+// Counters pushed to event streams whenever they change
+const countsSelect = Prisma.validator<Prisma.MurmurSelect>()({
+  id: true,
+  userId: true,
+  likesCount: true,
+  repliesCount: true,
+  retweetsCount: true,
+  user: { select: { isActive: true, isPrivate: true } },
+});
+
+// Broadcast a murmur's new counts on the shared channel. Murmurs of private or
+// deactivated accounts are left out; streams drop those of authors hidden from
+// their viewer.
+const publishCounts = (murmur: Prisma.MurmurGetPayload<{ select: typeof countsSelect }>): void => {
+  const { user, ...counts } = murmur;
+  if (user.isActive && !user.isPrivate) {
+    publishMurmurEvent('murmur.counts', counts);
+  }
+};
+
+type MurmurPage = {
+  murmurs: Murmur[];
+} & PageInfo;
+
+// Search results carry their relevance and an HTML-escaped snippet with <mark>ed matches
+export type MurmurSearchResult = Murmur & {
+  searchRank: number;
+  snippet: string;
+};
+
+export interface FeedOptions extends PageOptions {
+  viewerId?: string | undefined;
+}
+
+// Users whose content the viewer shouldn't see: blocked in either direction and,
+// for home feeds, muted
+const getExcludedUserIds = async (
+  viewerId: string | undefined,
+  { excludeMuted = false }: { excludeMuted?: boolean } = {}
+): Promise<string[]> => {
+  if (!viewerId) return [];
+
+  const [hiddenIds, mutedIds] = await Promise.all([
+    BlockService.getHiddenUserIds(viewerId),
+    excludeMuted ? MuteService.getMutedIds(viewerId) : Promise.resolve([] as string[]),
+  ]);
+
+  return [...new Set([...hiddenIds, ...mutedIds])];
+};
+
+// Hide content between users who blocked each other - including remurmurs and
+// quotes of their murmurs - and, for home feeds, content from muted users. Murmurs
+// by private accounts are only shown to the account itself and its followers, and
+// murmurs by deactivated accounts to no one.
+export const buildVisibilityWhere = async (
+  viewerId: string | undefined,
+  visibility: { excludeMuted?: boolean } = {}
+): Promise<Prisma.MurmurWhereInput> => {
+  const excludedIds = await getExcludedUserIds(viewerId, visibility);
+
+  const visibleAuthor: Prisma.UserWhereInput = {
+    isActive: true,
+    ...(excludedIds.length > 0 && { id: { notIn: excludedIds } }),
+    OR: viewerId
+      ? [{ isPrivate: false }, { id: viewerId }, { followers: { some: { followerId: viewerId } } }]
+      : [{ isPrivate: false }],
+  };
+
+  return {
+    AND: [
+      { user: visibleAuthor },
+      { OR: [{ remurmurOfId: null }, { remurmurOf: { user: visibleAuthor } }] },
+      { OR: [{ quoteOfId: null }, { quoteOf: { user: visibleAuthor } }] },
+    ],
+  };
+};
+
+// Raw SQL counterpart of the deactivated and private account checks in buildVisibilityWhere, for
+// the author in the given column
+const visibleAuthorSql = (userIdColumn: string, viewerId: string | undefined): Prisma.Sql => Prisma.sql`
+  EXISTS (
+    SELECT 1 FROM "users" author
+    WHERE author."id" = ${Prisma.raw(userIdColumn)}
+      AND author."isActive" = true
+      AND (
+        author."isPrivate" = false
+        OR author."id" = ${viewerId ?? null}
+        OR EXISTS (
+          SELECT 1 FROM "follows" f
+          WHERE f."followerId" = ${viewerId ?? null} AND f."followingId" = author."id"
+        )
+      )
+  )
+`;
+
+// Newest-first page of murmurs visible to the viewer. Uses the keyset cursor when
+// given, otherwise falls back to offset paging; the total is only counted on request.
+const findMurmurPage = async (
+  where: Prisma.MurmurWhereInput,
+  options: FeedOptions,
+  visibility: { excludeMuted?: boolean } = {}
+): Promise<MurmurPage> => {
+  const limit = options.limit ?? 10;
+  const visibleWhere = { AND: [where, await buildVisibilityWhere(options.viewerId, visibility)] };
+
+  const rows = await prisma.murmur.findMany({
+    where: options.cursor ? { AND: [visibleWhere, timeCursorWhere(options.cursor)] } : visibleWhere,
+    include: murmurInclude,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(!options.cursor && options.offset && { skip: options.offset }),
+  });
+
+  const { items, hasMore, nextCursor } = toPage(rows, limit);
+  const totalCount = options.includeTotal ? await prisma.murmur.count({ where: visibleWhere }) : undefined;
+
+  return {
+    murmurs: items,
+    hasMore,
+    nextCursor,
+    ...(totalCount !== undefined && { totalCount }),
   };
 };
 
+// The home timeline's feed query - original murmurs and remurmurs by the given
+// authors, leaving out muted users - which list timelines share
+const findTimelinePage = async (authors: Prisma.MurmurWhereInput, options: FeedOptions): Promise<MurmurPage> => {
+  return await findMurmurPage({
+    ...authors,
+    isDeleted: false,
+    replyToId: null,
+  }, options, { excludeMuted: true });
+};
+
 export interface IMurmurCreate {
   userId: string;
   content: string;
 }
 
 export class MurmurService {
-  // Create a new murmur
-  static async create(userId: string, content: string, replyToId?: string): Promise<Murmur> {
-    return await prisma.murmur.create({
-      data: {
-        userId,
-        content,
-        ...(replyToId && { replyToId }),
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
+  // Create a new murmur, attaching any uploaded media in the given order and any poll.
+  // A draft it is published from is deleted in the same transaction, so it can't
+  // be published twice; creating fails with P2025 when the draft is already gone.
+  static async create(
+    userId: string,
+    content: string,
+    replyToId?: string,
+    quoteOfId?: string,
+    mediaIds: string[] = [],
+    poll?: IPollCreate,
+    draftId?: string
+  ): Promise<Murmur> {
+    return await prisma.$transaction(async (tx) => {
+      if (draftId) {
+        await tx.draft.delete({
+          where: { id: draftId },
+        });
+      }
+
+      const murmur = await tx.murmur.create({
+        data: {
+          userId,
+          content,
+          ...(replyToId && { replyToId }),
+          ...(quoteOfId && { quoteOfId }),
         },
-      },
+      });
+
+      await MediaService.attachToMurmur(tx, userId, murmur.id, mediaIds);
+      if (poll) await PollService.createForMurmur(tx, murmur.id, poll);
+      await HashtagService.syncForMurmur(tx, murmur.id, content);
+      await MentionService.syncForMurmur(tx, murmur.id, content);
+
+      return await tx.murmur.findUniqueOrThrow({
+        where: { id: murmur.id },
+        include: murmurInclude,
+      });
     });
   }
 
@@ -56,25 +261,45 @@ export class MurmurService {
         id,
         isDeleted: false,
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
-        },
+      include: murmurInclude,
+    });
+  }
+
+  // Get which of the given murmurs the viewer may see
+  static async getVisibleIds(murmurIds: string[], viewerId: string | undefined): Promise<Set<string>> {
+    if (murmurIds.length === 0) return new Set();
+
+    const murmurs = await prisma.murmur.findMany({
+      where: {
+        AND: [
+          { id: { in: murmurIds } },
+          await buildVisibilityWhere(viewerId),
+        ],
       },
+      select: { id: true },
     });
+
+    return new Set(murmurs.map((murmur: any) => murmur.id));
   }
 
-  // Soft delete murmur
+  // Check whether the viewer may see a murmur
+  static async isVisibleTo(murmurId: string, viewerId: string | undefined): Promise<boolean> {
+    return (await this.getVisibleIds([murmurId], viewerId)).has(murmurId);
+  }
+
+  // Soft delete murmur (plain remurmurs of it go with it) and drop its hashtags
   static async softDelete(id: string): Promise<boolean> {
     try {
-      await prisma.murmur.update({
-        where: { id },
-        data: { isDeleted: true },
+      await prisma.$transaction(async (tx) => {
+        await tx.murmur.update({
+          where: { id },
+          data: { isDeleted: true },
+        });
+        await tx.murmur.updateMany({
+          where: { remurmurOfId: id },
+          data: { isDeleted: true },
+        });
+        await HashtagService.removeForMurmur(tx, id);
       });
       return true;
     } catch (error) {
@@ -82,151 +307,199 @@ export class MurmurService {
     }
   }
 
-  // Get timeline murmurs (from followed users)
-  static async getTimeline(userId: string, limit: number = 10, offset: number = 0): Promise<{
-    murmurs: Murmur[];
-    totalCount: number;
-  }> {
-    // Get users that the current user follows
-    const follows = await prisma.follow.findMany({
-      where: { followerId: userId },
-      select: { followingId: true },
+  // Find a user's plain remurmur of a murmur
+  static async findRemurmur(userId: string, murmurId: string): Promise<Murmur | null> {
+    return await prisma.murmur.findUnique({
+      where: {
+        userId_remurmurOfId: {
+          userId,
+          remurmurOfId: murmurId,
+        },
+      },
+      include: murmurInclude,
     });
+  }
 
-    const followingIds = follows.map((f: any) => f.followingId);
-
-    const murmurs = await prisma.murmur.findMany({
-      where: {
-        userId: { in: followingIds },
-        isDeleted: false,
-        replyToId: null,
+  // Remurmur (repost) a murmur without adding content
+  static async remurmur(userId: string, murmurId: string): Promise<Murmur> {
+    return await prisma.murmur.create({
+      data: {
+        userId,
+        content: '',
+        remurmurOfId: murmurId,
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
+      include: murmurInclude,
+    });
+  }
+
+  // Undo a plain remurmur; the repost row has no content worth keeping
+  static async undoRemurmur(userId: string, murmurId: string): Promise<boolean> {
+    try {
+      await prisma.murmur.delete({
+        where: {
+          userId_remurmurOfId: {
+            userId,
+            remurmurOfId: murmurId,
           },
         },
-      },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset,
-    });
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
 
-    const totalCount = await prisma.murmur.count({
+  // Get which of the given murmurs a user has remurmured
+  static async getRemurmuredIds(userId: string, murmurIds: string[]): Promise<Set<string>> {
+    if (murmurIds.length === 0) return new Set();
+
+    const remurmurs = await prisma.murmur.findMany({
       where: {
-        userId: { in: followingIds },
+        userId,
+        remurmurOfId: { in: murmurIds },
         isDeleted: false,
-        replyToId: null,
       },
+      select: { remurmurOfId: true },
     });
 
-    return { murmurs, totalCount };
+    return new Set(remurmurs.map((remurmur: any) => remurmur.remurmurOfId));
   }
 
-  // Get public murmurs
-  static async getPublicMurmurs(limit: number = 10, offset: number = 0, excludeUserId?: string): Promise<{
-    murmurs: Murmur[];
-    totalCount: number;
-  }> {
-    const whereClause: any = {
+  // Get timeline murmurs (from followed users), including their remurmurs
+  static async getTimeline(userId: string, options: PageOptions = {}): Promise<MurmurPage> {
+    // Get users that the current user follows
+    const follows = await prisma.follow.findMany({
+      where: { followerId: userId },
+      select: { followingId: true },
+    });
+
+    const followingIds = follows.map((f: any) => f.followingId);
+
+    return await findTimelinePage({ userId: { in: followingIds } }, { ...options, viewerId: userId });
+  }
+
+  // Get a list's timeline: murmurs by the list's members, including their remurmurs
+  static async getListTimeline(listId: string, options: FeedOptions = {}): Promise<MurmurPage> {
+    return await findTimelinePage({ user: { listMemberships: { some: { listId } } } }, options);
+  }
+
+  // Get public murmurs, leaving out the viewer's own
+  static async getPublicMurmurs(options: FeedOptions = {}): Promise<MurmurPage> {
+    const whereClause: Prisma.MurmurWhereInput = {
       isDeleted: false,
       replyToId: null,
+      remurmurOfId: null,
     };
 
-    if (excludeUserId) {
-      whereClause.userId = { not: excludeUserId };
+    if (options.viewerId) {
+      whereClause.userId = { not: options.viewerId };
     }
 
-    const murmurs = await prisma.murmur.findMany({
-      where: whereClause,
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset,
-    });
-
-    const totalCount = await prisma.murmur.count({
-      where: whereClause,
-    });
-
-    return { murmurs, totalCount };
+    return await findMurmurPage(whereClause, options, { excludeMuted: true });
   }
 
-  // Get user's murmurs
-  static async getUserMurmurs(userId: string, limit: number = 10, offset: number = 0): Promise<{
-    murmurs: Murmur[];
-    totalCount: number;
-  }> {
-    const murmurs = await prisma.murmur.findMany({
+  // Recent original murmurs (and quotes) by the given authors, as candidates for ranked feeds
+  static async getRecentByAuthors(viewerId: string, authorIds: string[], since: Date, take: number): Promise<Murmur[]> {
+    if (authorIds.length === 0) return [];
+
+    return await prisma.murmur.findMany({
       where: {
-        userId,
-        isDeleted: false,
-        replyToId: null,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
+        AND: [
+          {
+            userId: { in: authorIds, not: viewerId },
+            isDeleted: false,
+            replyToId: null,
+            remurmurOfId: null,
+            createdAt: { gte: since },
           },
-        },
+          await buildVisibilityWhere(viewerId, { excludeMuted: true }),
+        ],
       },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset,
+      include: murmurInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take,
     });
+  }
 
-    const totalCount = await prisma.murmur.count({
+  // Top trending original murmurs since a point in time, as candidates for ranked feeds
+  static async getPopularSince(viewerId: string, since: Date, take: number): Promise<Murmur[]> {
+    return await prisma.murmur.findMany({
       where: {
-        userId,
-        isDeleted: false,
-        replyToId: null,
+        AND: [
+          {
+            userId: { not: viewerId },
+            isDeleted: false,
+            replyToId: null,
+            remurmurOfId: null,
+            createdAt: { gte: since },
+          },
+          await buildVisibilityWhere(viewerId, { excludeMuted: true }),
+        ],
       },
+      include: murmurInclude,
+      orderBy: [{ trendingScore: 'desc' }, { likesCount: 'desc' }],
+      take,
     });
+  }
 
-    return { murmurs, totalCount };
+  // Get user's murmurs, including their remurmurs
+  static async getUserMurmurs(userId: string, options: FeedOptions = {}): Promise<MurmurPage> {
+    return await findMurmurPage({
+      userId,
+      isDeleted: false,
+      replyToId: null,
+    }, options);
   }
 
-  // Update murmur content
+  // Update murmur content, keeping the previous text as a revision
   static async update(id: string, content: string): Promise<Murmur | null> {
-    return await prisma.murmur.update({
-      where: { id },
-      data: { content },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
+    return await prisma.$transaction(async (tx) => {
+      const current = await tx.murmur.findUnique({
+        where: { id },
+        select: { content: true },
+      });
+
+      if (!current) return null;
+
+      await tx.murmurRevision.create({
+        data: {
+          murmurId: id,
+          content: current.content,
         },
-      },
+      });
+
+      await HashtagService.syncForMurmur(tx, id, content);
+      await MentionService.syncForMurmur(tx, id, content);
+
+      return await tx.murmur.update({
+        where: { id },
+        data: {
+          content,
+          editedAt: new Date(),
+          editCount: { increment: 1 },
+        },
+        include: murmurInclude,
+      });
+    });
+  }
+
+  // Get previous versions of a murmur, newest first
+  static async getRevisions(murmurId: string): Promise<MurmurRevision[]> {
+    return await prisma.murmurRevision.findMany({
+      where: { murmurId },
+      orderBy: { createdAt: 'desc' },
     });
   }
 
   // Increment like count
   static async incrementLikesCount(id: string): Promise<boolean> {
     try {
-      await prisma.murmur.update({
+      const murmur = await prisma.murmur.update({
         where: { id },
         data: { likesCount: { increment: 1 } },
+        select: countsSelect,
       });
+      publishCounts(murmur);
       return true;
     } catch (error) {
       return false;
@@ -236,10 +509,12 @@ export class MurmurService {
   // Decrement like count
   static async decrementLikesCount(id: string): Promise<boolean> {
     try {
-      await prisma.murmur.update({
+      const murmur = await prisma.murmur.update({
         where: { id },
         data: { likesCount: { decrement: 1 } },
+        select: countsSelect,
       });
+      publishCounts(murmur);
       return true;
     } catch (error) {
       return false;
@@ -249,10 +524,12 @@ export class MurmurService {
   // Increment replies count
   static async incrementRepliesCount(id: string): Promise<boolean> {
     try {
-      await prisma.murmur.update({
+      const murmur = await prisma.murmur.update({
         where: { id },
         data: { repliesCount: { increment: 1 } },
+        select: countsSelect,
       });
+      publishCounts(murmur);
       return true;
     } catch (error) {
       return false;
@@ -262,141 +539,275 @@ export class MurmurService {
   // Decrement replies count
   static async decrementRepliesCount(id: string): Promise<boolean> {
     try {
-      await prisma.murmur.update({
+      const murmur = await prisma.murmur.update({
         where: { id },
         data: { repliesCount: { decrement: 1 } },
+        select: countsSelect,
       });
+      publishCounts(murmur);
       return true;
     } catch (error) {
       return false;
     }
   }
 
-  // Search murmurs by content
-  static async search(query: string, limit: number = 20, offset: number = 0): Promise<{
-    murmurs: Murmur[];
-    totalCount: number;
-  }> {
+  // Increment remurmurs count (plain and quote remurmurs)
+  static async incrementRetweetsCount(id: string): Promise<boolean> {
+    try {
+      const murmur = await prisma.murmur.update({
+        where: { id },
+        data: { retweetsCount: { increment: 1 } },
+        select: countsSelect,
+      });
+      publishCounts(murmur);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Decrement remurmurs count
+  static async decrementRetweetsCount(id: string): Promise<boolean> {
+    try {
+      const murmur = await prisma.murmur.update({
+        where: { id },
+        data: { retweetsCount: { decrement: 1 } },
+        select: countsSelect,
+      });
+      publishCounts(murmur);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Full-text search over murmur content, most relevant first. Relevance order
+  // can't be keyset-paginated, so this pages by offset only.
+  static async search(query: string, options: FeedOptions = {}): Promise<{
+    murmurs: MurmurSearchResult[];
+  } & PageInfo> {
+    const limit = options.limit ?? 20;
+    const tsQuery = buildTsQuery(query);
+    if (!tsQuery) {
+      return { murmurs: [], hasMore: false, nextCursor: null, ...(options.includeTotal && { totalCount: 0 }) };
+    }
+
+    const hiddenIds = await getExcludedUserIds(options.viewerId);
+
+    // Leave out quotes of murmurs by hidden users or private accounts as well, like the feeds do
+    const matches = Prisma.sql`
+      FROM "murmurs" m
+      CROSS JOIN to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery}) AS query
+      LEFT JOIN "murmurs" quoted ON quoted."id" = m."quoteOfId"
+      WHERE m."searchVector" @@ query
+        AND m."isDeleted" = false
+        AND m."replyToId" IS NULL
+        AND m."userId" <> ALL(${hiddenIds}::text[])
+        AND (quoted."userId" IS NULL OR quoted."userId" <> ALL(${hiddenIds}::text[]))
+        AND ${visibleAuthorSql('m."userId"', options.viewerId)}
+        AND (quoted."userId" IS NULL OR ${visibleAuthorSql('quoted."userId"', options.viewerId)})
+    `;
+
+    const rows = await prisma.$queryRaw<{ id: string; rank: number; snippet: string }[]>`
+      SELECT
+        m."id",
+        ts_rank(m."searchVector", query) AS "rank",
+        ts_headline(
+          ${SEARCH_CONFIG}::regconfig,
+          replace(replace(replace(m."content", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+          query,
+          ${HEADLINE_OPTIONS}
+        ) AS "snippet"
+      ${matches}
+      ORDER BY "rank" DESC, m."createdAt" DESC, m."id" DESC
+      LIMIT ${limit + 1} OFFSET ${options.offset ?? 0}
+    `;
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
     const murmurs = await prisma.murmur.findMany({
-      where: {
-        isDeleted: false,
-        replyToId: null,
-        content: {
-          contains: query,
-          mode: 'insensitive',
-        },
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset,
+      where: { id: { in: page.map(row => row.id) } },
+      include: murmurInclude,
     });
+    const murmursById = new Map(murmurs.map(murmur => [murmur.id, murmur]));
 
-    const totalCount = await prisma.murmur.count({
-      where: {
-        isDeleted: false,
-        replyToId: null,
-        content: {
-          contains: query,
-          mode: 'insensitive',
-        },
-      },
-    });
+    let totalCount: number | undefined;
+    if (options.includeTotal) {
+      const [result] = await prisma.$queryRaw<{ count: number }[]>`SELECT count(*)::int AS "count" ${matches}`;
+      totalCount = result?.count ?? 0;
+    }
 
-    return { murmurs, totalCount };
+    return {
+      murmurs: page
+        .filter(row => murmursById.has(row.id))
+        .map(row => ({
+          ...murmursById.get(row.id)!,
+          searchRank: row.rank,
+          snippet: row.snippet,
+        })),
+      hasMore,
+      nextCursor: null,
+      ...(totalCount !== undefined && { totalCount }),
+    };
   }
 
-  // Get trending murmurs (by likes count)
-  static async getTrending(limit: number = 10, offset: number = 0): Promise<{
+  // Get murmurs that mention a user, newest first
+  static async getMentions(userId: string, options: PageOptions = {}): Promise<MurmurPage> {
+    return await findMurmurPage({
+      isDeleted: false,
+      mentions: { some: { userId } },
+    }, { ...options, viewerId: userId }, { excludeMuted: true });
+  }
+
+  // Get murmurs tagged with a hashtag, newest first
+  static async getByHashtag(tag: string, options: FeedOptions = {}): Promise<MurmurPage> {
+    return await findMurmurPage({
+      isDeleted: false,
+      hashtags: { some: { hashtag: { tag } } },
+    }, options);
+  }
+
+  // Recompute the gravity-decayed trending score of every recent original murmur
+  // and clear the scores of ones that aged out or were deleted. Runs on a schedule
+  // (see src/jobs) so reading the trending list stays cheap.
+  static async recalculateTrendingScores(): Promise<number> {
+    const since = new Date(Date.now() - TRENDING_MAX_AGE_HOURS * 60 * 60 * 1000);
+
+    const [updated] = await prisma.$transaction([
+      prisma.$executeRaw`
+        UPDATE "murmurs"
+        SET "trendingScore" = (
+          ${TRENDING_WEIGHTS.likes} * "likesCount"
+          + ${TRENDING_WEIGHTS.replies} * "repliesCount"
+          + ${TRENDING_WEIGHTS.remurmurs} * "retweetsCount"
+        ) / power(extract(epoch FROM (now() - "createdAt")) / 3600 + 2, ${TRENDING_GRAVITY})
+        WHERE "createdAt" >= ${since}
+          AND "isDeleted" = false
+          AND "replyToId" IS NULL
+          AND "remurmurOfId" IS NULL
+      `,
+      prisma.$executeRaw`
+        UPDATE "murmurs"
+        SET "trendingScore" = 0
+        WHERE "trendingScore" > 0
+          AND ("createdAt" < ${since} OR "isDeleted" = true)
+      `,
+    ]);
+
+    return updated;
+  }
+
+  // Get trending murmurs posted within the window, by their precomputed trending
+  // score, with at most perAuthor murmurs from any one author
+  static async getTrending(options: FeedOptions & { windowHours?: number; perAuthor?: number } = {}): Promise<{
     murmurs: Murmur[];
-    totalCount: number;
-  }> {
+  } & PageInfo> {
+    const limit = options.limit ?? 10;
+    const windowHours = Math.min(options.windowHours ?? 24, TRENDING_MAX_AGE_HOURS);
+    const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+    const excludedIds = await getExcludedUserIds(options.viewerId, { excludeMuted: true });
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id"
+      FROM (
+        SELECT
+          m."id",
+          m."trendingScore",
+          row_number() OVER (PARTITION BY m."userId" ORDER BY m."trendingScore" DESC, m."id" DESC) AS "authorRank"
+        FROM "murmurs" m
+        LEFT JOIN "murmurs" quoted ON quoted."id" = m."quoteOfId"
+        WHERE m."trendingScore" > 0
+          AND m."createdAt" >= ${since}
+          AND m."isDeleted" = false
+          AND m."replyToId" IS NULL
+          AND m."remurmurOfId" IS NULL
+          AND m."userId" <> ALL(${excludedIds}::text[])
+          AND (quoted."userId" IS NULL OR quoted."userId" <> ALL(${excludedIds}::text[]))
+          AND ${visibleAuthorSql('m."userId"', options.viewerId)}
+          AND (quoted."userId" IS NULL OR ${visibleAuthorSql('quoted."userId"', options.viewerId)})
+      ) ranked
+      WHERE "authorRank" <= ${options.perAuthor ?? 2}
+      ORDER BY "trendingScore" DESC, "id" DESC
+      LIMIT ${limit + 1} OFFSET ${options.offset ?? 0}
+    `;
+
+    const hasMore = rows.length > limit;
+    const ids = (hasMore ? rows.slice(0, limit) : rows).map(row => row.id);
+
     const murmurs = await prisma.murmur.findMany({
-      where: {
-        isDeleted: false,
-        replyToId: null,
-        createdAt: {
-          gte: new Date(Date.now() - 24 * 60 * 60 * 1000), // Last 24 hours
-        },
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
-        },
-      },
-      orderBy: { likesCount: 'desc' },
-      take: limit,
-      skip: offset,
+      where: { id: { in: ids } },
+      include: murmurInclude,
     });
+    const murmursById = new Map(murmurs.map(murmur => [murmur.id, murmur]));
 
-    const totalCount = await prisma.murmur.count({
+    return {
+      murmurs: ids.map(id => murmursById.get(id)).filter((murmur): murmur is NonNullable<typeof murmur> => !!murmur),
+      hasMore,
+      nextCursor: null,
+    };
+  }
+
+  // Remove all murmurs for a user (when user is deleted). Their replies,
+  // remurmurs and quotes stop counting towards other users' murmurs, and plain
+  // remurmurs of their murmurs go with them.
+  static async removeAllMurmursForUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    await tx.$executeRaw`
+      UPDATE "murmurs" AS parent
+      SET "repliesCount" = GREATEST(parent."repliesCount" - removed."count", 0)
+      FROM (
+        SELECT "replyToId" AS "id", count(*)::int AS "count"
+        FROM "murmurs"
+        WHERE "userId" = ${userId}
+          AND "isDeleted" = false
+          AND "replyToId" IS NOT NULL
+        GROUP BY "replyToId"
+      ) AS removed
+      WHERE parent."id" = removed."id"
+    `;
+    await tx.$executeRaw`
+      UPDATE "murmurs" AS original
+      SET "retweetsCount" = GREATEST(original."retweetsCount" - removed."count", 0)
+      FROM (
+        SELECT COALESCE("remurmurOfId", "quoteOfId") AS "id", count(*)::int AS "count"
+        FROM "murmurs"
+        WHERE "userId" = ${userId}
+          AND "isDeleted" = false
+          AND ("remurmurOfId" IS NOT NULL OR "quoteOfId" IS NOT NULL)
+        GROUP BY COALESCE("remurmurOfId", "quoteOfId")
+      ) AS removed
+      WHERE original."id" = removed."id"
+    `;
+    await tx.murmur.updateMany({
       where: {
+        remurmurOf: { userId },
         isDeleted: false,
-        replyToId: null,
-        createdAt: {
-          gte: new Date(Date.now() - 24 * 60 * 60 * 1000),
-        },
       },
+      data: { isDeleted: true },
     });
-
-    return { murmurs, totalCount };
-  }
-
-  // Remove all murmurs for a user (when user is deleted)
-  static async removeAllMurmursForUser(userId: string): Promise<void> {
-    await prisma.murmur.updateMany({
+    await tx.murmur.updateMany({
       where: { userId },
       data: { isDeleted: true },
     });
+    await tx.murmurHashtag.deleteMany({
+      where: { murmur: { userId } },
+    });
+    await tx.user.update({
+      where: { id: userId },
+      data: { murmursCount: 0 },
+    });
   }
 
   // Get replies for a murmur
-  static async getReplies(murmurId: string, limit: number = 10, offset: number = 0): Promise<{
+  static async getReplies(murmurId: string, options: FeedOptions = {}): Promise<{
     replies: Murmur[];
-    totalCount: number;
-  }> {
-    const replies = await prisma.murmur.findMany({
-      where: {
-        replyToId: murmurId,
-        isDeleted: false,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            displayName: true,
-            avatar: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-      take: limit,
-      skip: offset,
-    });
-
-    const totalCount = await prisma.murmur.count({
-      where: {
-        replyToId: murmurId,
-        isDeleted: false,
-      },
-    });
+  } & PageInfo> {
+    const { murmurs, ...pageInfo } = await findMurmurPage({
+      replyToId: murmurId,
+      isDeleted: false,
+    }, options);
 
-    return { replies, totalCount };
+    return { replies: murmurs, ...pageInfo };
   }
 }
 
@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Type for Mute model from Prisma
+type Mute = {
+  id: string;
+  muterId: string;
+  mutedId: string;
+  createdAt: Date;
+};
+
+export class MuteService {
+  // Mute a user
+  static async create(muterId: string, mutedId: string): Promise<Mute> {
+    if (muterId === mutedId) {
+      throw new Error('Users cannot mute themselves');
+    }
+
+    return await prisma.mute.create({
+      data: {
+        muterId,
+        mutedId,
+      },
+    });
+  }
+
+  // Unmute a user
+  static async delete(muterId: string, mutedId: string): Promise<boolean> {
+    try {
+      await prisma.mute.delete({
+        where: {
+          muterId_mutedId: {
+            muterId,
+            mutedId,
+          },
+        },
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Check if a user has muted another user
+  static async isMuted(muterId: string, mutedId: string): Promise<boolean> {
+    const mute = await prisma.mute.findUnique({
+      where: {
+        muterId_mutedId: {
+          muterId,
+          mutedId,
+        },
+      },
+    });
+    return !!mute;
+  }
+
+  // Get IDs of users muted by a user
+  static async getMutedIds(muterId: string): Promise<string[]> {
+    const mutes = await prisma.mute.findMany({
+      where: { muterId },
+      select: { mutedId: true },
+    });
+
+    return mutes.map((mute: any) => mute.mutedId);
+  }
+
+  // Get IDs of users who muted a user
+  static async getMuterIds(mutedId: string): Promise<string[]> {
+    const mutes = await prisma.mute.findMany({
+      where: { mutedId },
+      select: { muterId: true },
+    });
+
+    return mutes.map((mute: any) => mute.muterId);
+  }
+
+  // Get users muted by a user
+  static async getMutedUsers(muterId: string, limit: number = 20, offset: number = 0): Promise<{
+    users: any[];
+    totalCount: number;
+  }> {
+    const mutes = await prisma.mute.findMany({
+      where: { muterId },
+      include: {
+        muted: {
+          select: {
+            id: true,
+            username: true,
+            displayName: true,
+            avatar: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+
+    const totalCount = await prisma.mute.count({
+      where: { muterId },
+    });
+
+    return { users: mutes.map((mute: any) => mute.muted), totalCount };
+  }
+}
+
+export default MuteService;
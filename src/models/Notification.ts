@@ -1,16 +1,42 @@
 import { PrismaClient } from '@prisma/client';
+import { publishToUser } from '../lib/events';
+import BlockService from './Block';
+import MuteService from './Mute';
 
 const prisma = new PrismaClient();
 
+export type NotificationType = 'like' | 'follow' | 'follow_request' | 'follow_accept' | 'reply' | 'remurmur' | 'mention' | 'message' | 'list_add' | 'poll_ended' | 'report_resolved';
+
+// Notifications about the user's own content, where the user is also the actor
+const SELF_NOTIFICATION_TYPES: NotificationType[] = ['poll_ended', 'report_resolved'];
+
+// What a notification is about, besides a murmur
+export interface NotificationSubject {
+  conversationId?: string;
+  listId?: string;
+  moderationCaseId?: string;
+}
+
 export class NotificationService {
   static async create(
-    type: 'like' | 'follow' | 'reply',
+    type: NotificationType,
     userId: string,
     actorId: string,
-    murmurId?: string
+    murmurId?: string,
+    subject: NotificationSubject = {}
   ) {
     // Don't create notification if user is acting on their own content
-    if (userId === actorId) {
+    if (userId === actorId && !SELF_NOTIFICATION_TYPES.includes(type)) {
+      return null;
+    }
+
+    // Nor for actors the user has blocked or muted, or who blocked the user
+    const [isBlocked, isMuted] = await Promise.all([
+      BlockService.isBlockedEitherWay(userId, actorId),
+      MuteService.isMuted(userId, actorId),
+    ]);
+
+    if (isBlocked || isMuted) {
       return null;
     }
 
@@ -21,10 +47,15 @@ export class NotificationService {
         userId,
         actorId,
         ...(murmurId && { murmurId }),
+        ...(subject.conversationId && { conversationId: subject.conversationId }),
+        ...(subject.listId && { listId: subject.listId }),
+        ...(subject.moderationCaseId && { moderationCaseId: subject.moderationCaseId }),
       },
     });
 
-    if (existing) {
+    // Repeat actions don't notify twice, except that a new message brings back a
+    // message notification that has already been read
+    if (existing && (type !== 'message' || !existing.isRead)) {
       return existing;
     }
 
@@ -48,15 +79,52 @@ export class NotificationService {
       };
     }
 
-    return await prisma.notification.create({
-      data: {
-        type,
-        userId,
-        actorId,
-        ...(murmurId && { murmurId }),
-      },
-      include: includeConfig,
-    });
+    if (subject.listId) {
+      includeConfig.list = {
+        select: {
+          id: true,
+          name: true,
+        },
+      };
+    }
+
+    if (subject.moderationCaseId) {
+      includeConfig.moderationCase = {
+        select: {
+          id: true,
+          targetType: true,
+          status: true,
+          action: true,
+        },
+      };
+    }
+
+    const notification = existing
+      ? await prisma.notification.update({
+        where: { id: existing.id },
+        data: {
+          isRead: false,
+          createdAt: new Date(),
+        },
+        include: includeConfig,
+      })
+      : await prisma.notification.create({
+        data: {
+          type,
+          userId,
+          actorId,
+          ...(murmurId && { murmurId }),
+          ...(subject.conversationId && { conversationId: subject.conversationId }),
+          ...(subject.listId && { listId: subject.listId }),
+          ...(subject.moderationCaseId && { moderationCaseId: subject.moderationCaseId }),
+        },
+        include: includeConfig,
+      });
+
+    // Push to the recipient's open event streams
+    publishToUser(userId, 'notification', notification);
+
+    return notification;
   }
 
   static async getUserNotifications(
@@ -95,6 +163,20 @@ export class NotificationService {
             updatedAt: true,
           },
         },
+        list: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        moderationCase: {
+          select: {
+            id: true,
+            targetType: true,
+            status: true,
+            action: true,
+          },
+        },
       },
       orderBy: {
         createdAt: 'desc',
@@ -142,6 +224,20 @@ export class NotificationService {
     });
   }
 
+  // Mark a user's message notifications for a conversation as read, once they have read it
+  static async markConversationAsRead(userId: string, conversationId: string) {
+    return await prisma.notification.updateMany({
+      where: {
+        userId,
+        conversationId,
+        isRead: false,
+      },
+      data: {
+        isRead: true,
+      },
+    });
+  }
+
   static async getUnreadCount(userId: string) {
     return await prisma.notification.count({
       where: {
@@ -0,0 +1,193 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import NotificationService from './Notification';
+
+const prisma = new PrismaClient();
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 4;
+export const MAX_POLL_OPTION_LENGTH = 25;
+// How long a poll can stay open, in minutes: five minutes to seven days
+export const MIN_POLL_DURATION_MINUTES = 5;
+export const MAX_POLL_DURATION_MINUTES = 7 * 24 * 60;
+
+// How many ended polls are handled per run of the notification job
+const ENDED_POLLS_BATCH_SIZE = 100;
+
+export interface IPollCreate {
+  options: string[];
+  durationMinutes: number;
+}
+
+// Poll with its options in order, as embedded in murmurs
+export const pollInclude = Prisma.validator<Prisma.Murmur$pollArgs>()({
+  include: {
+    options: { orderBy: { position: 'asc' } },
+  },
+});
+
+export type MurmurPoll = Prisma.PollGetPayload<typeof pollInclude>;
+
+// What a viewer sees of a poll. Vote counts per option are null until the viewer
+// has voted or the poll has closed.
+export type PollView = {
+  id: string;
+  endsAt: Date;
+  isClosed: boolean;
+  votesCount: number;
+  viewerVoteOptionId: string | null;
+  options: {
+    id: string;
+    position: number;
+    text: string;
+    votesCount: number | null;
+  }[];
+};
+
+export class PollService {
+  // Attach a poll to a new murmur. Must run in the murmur's transaction.
+  static async createForMurmur(tx: Prisma.TransactionClient, murmurId: string, poll: IPollCreate): Promise<void> {
+    await tx.poll.create({
+      data: {
+        murmurId,
+        endsAt: new Date(Date.now() + poll.durationMinutes * 60 * 1000),
+        options: {
+          create: poll.options.map((text, position) => ({ text, position })),
+        },
+      },
+    });
+  }
+
+  // Find a murmur's poll
+  static async findByMurmurId(murmurId: string): Promise<MurmurPoll | null> {
+    return await prisma.poll.findUnique({
+      where: { murmurId },
+      include: pollInclude.include,
+    });
+  }
+
+  // Cast a user's single vote. Returns null when the poll has closed or the user
+  // has already voted.
+  static async vote(pollId: string, optionId: string, userId: string): Promise<MurmurPoll | null> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const { count } = await tx.poll.updateMany({
+          where: { id: pollId, endsAt: { gt: new Date() } },
+          data: { votesCount: { increment: 1 } },
+        });
+        if (count === 0) return null;
+
+        await tx.pollVote.create({
+          data: {
+            pollId,
+            optionId,
+            userId,
+          },
+        });
+        await tx.pollOption.update({
+          where: { id: optionId },
+          data: { votesCount: { increment: 1 } },
+        });
+
+        return await tx.poll.findUniqueOrThrow({
+          where: { id: pollId },
+          include: pollInclude.include,
+        });
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Withdraw a user's votes from polls still open (when user is deleted),
+  // updating the counts. Results of closed polls are final, so their votes are
+  // left to go with the user.
+  static async removeAllVotesForUser(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+    const openPoll = { endsAt: { gt: new Date() } };
+
+    await tx.poll.updateMany({
+      where: { ...openPoll, votes: { some: { userId } } },
+      data: { votesCount: { decrement: 1 } },
+    });
+    await tx.pollOption.updateMany({
+      where: { poll: openPoll, votes: { some: { userId } } },
+      data: { votesCount: { decrement: 1 } },
+    });
+    await tx.pollVote.deleteMany({
+      where: { userId, poll: openPoll },
+    });
+  }
+
+  // Get the option a user voted for in each of the given polls
+  static async getVotedOptionIds(userId: string, pollIds: string[]): Promise<Map<string, string>> {
+    if (pollIds.length === 0) return new Map();
+
+    const votes = await prisma.pollVote.findMany({
+      where: {
+        userId,
+        pollId: { in: pollIds },
+      },
+      select: { pollId: true, optionId: true },
+    });
+
+    return new Map(votes.map((vote: any) => [vote.pollId, vote.optionId]));
+  }
+
+  // Shape a poll for a viewer, hiding the results until they voted or it closed
+  static toView(poll: MurmurPoll, viewerVoteOptionId: string | null): PollView {
+    const isClosed = poll.endsAt.getTime() <= Date.now();
+    const showResults = isClosed || viewerVoteOptionId !== null;
+
+    return {
+      id: poll.id,
+      endsAt: poll.endsAt,
+      isClosed,
+      votesCount: poll.votesCount,
+      viewerVoteOptionId,
+      options: poll.options.map(option => ({
+        id: option.id,
+        position: option.position,
+        text: option.text,
+        votesCount: showResults ? option.votesCount : null,
+      })),
+    };
+  }
+
+  // Tell authors about their polls that have ended. Each poll is claimed before
+  // notifying, so no author hears about the same poll twice. Returns how many
+  // polls were handled.
+  static async notifyEndedPolls(): Promise<number> {
+    const polls = await prisma.poll.findMany({
+      where: {
+        endNotifiedAt: null,
+        endsAt: { lte: new Date() },
+      },
+      select: {
+        id: true,
+        murmur: { select: { id: true, userId: true, isDeleted: true } },
+      },
+      orderBy: { endsAt: 'asc' },
+      take: ENDED_POLLS_BATCH_SIZE,
+    });
+
+    let handled = 0;
+    for (const poll of polls) {
+      const { count } = await prisma.poll.updateMany({
+        where: { id: poll.id, endNotifiedAt: null },
+        data: { endNotifiedAt: new Date() },
+      });
+      if (count === 0) continue;
+
+      handled++;
+      if (!poll.murmur.isDeleted) {
+        await NotificationService.create('poll_ended', poll.murmur.userId, poll.murmur.userId, poll.murmur.id);
+      }
+    }
+
+    return handled;
+  }
+}
+
+export default PollService;
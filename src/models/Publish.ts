@@ -0,0 +1,154 @@
+import { publishToUsers } from '../lib/events';
+import MurmurService, { Murmur } from './Murmur';
+import UserService from './User';
+import FollowService from './Follow';
+import MuteService from './Mute';
+import BlockService from './Block';
+import MediaService from './Media';
+import LikeService from './Like';
+import MentionService from './Mention';
+import NotificationService from './Notification';
+import HydrationService from './Hydration';
+import { IPollCreate } from './Poll';
+
+export interface IMurmurPublish {
+  content: string;
+  replyToId?: string | undefined;
+  mediaIds?: string[] | undefined;
+  poll?: IPollCreate | undefined;
+  draftId?: string | undefined; // Draft being published, deleted along with creating the murmur
+}
+
+// A murmur that can't be published as it stands, e.g. because the murmur it
+// replies to is gone. Carries the HTTP status to answer with.
+export class PublishError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'PublishError';
+  }
+}
+
+export class PublishService {
+  // Publish a new murmur or reply with everything that goes with it: counters,
+  // the followers' live timelines and notifications. Throws a PublishError when
+  // the murmur can't be published.
+  static async publish(userId: string, input: IMurmurPublish): Promise<Murmur> {
+    const { content, replyToId, poll, draftId } = input;
+    const mediaIds = input.mediaIds ?? [];
+
+    if (content.length === 0 && mediaIds.length === 0) {
+      throw new PublishError('Content must be between 1 and 280 characters', 400);
+    }
+
+    if (poll && mediaIds.length > 0) {
+      throw new PublishError('A murmur cannot have both media and a poll', 400);
+    }
+
+    if (mediaIds.length > 0 && !await MediaService.areAttachable(userId, mediaIds)) {
+      throw new PublishError('Media not found or already attached to another murmur', 400);
+    }
+
+    if (replyToId) {
+      await this.checkReplyTarget(userId, replyToId);
+    }
+
+    const murmur = await MurmurService.create(userId, content, replyToId, undefined, mediaIds, poll, draftId);
+
+    // Update user's murmur count and notify followers only if it's not a reply
+    if (!replyToId) {
+      await UserService.updateCounts(userId, { murmursCount: 1 });
+      await this.publishToFollowers(murmur);
+    }
+
+    // If it's a reply, create notification for the parent murmur author and increment reply count
+    if (replyToId) {
+      const parentMurmur = await MurmurService.findById(replyToId);
+      if (parentMurmur) {
+        await NotificationService.create('reply', parentMurmur.userId, userId, replyToId);
+        await MurmurService.incrementRepliesCount(replyToId);
+      }
+    }
+
+    await this.notifyMentions(murmur);
+
+    return murmur;
+  }
+
+  // Take a murmur down and undo what publishing it counted. Deleting a plain
+  // remurmur is the same as undoing it.
+  static async unpublish(murmur: Murmur): Promise<void> {
+    if (murmur.remurmurOfId) {
+      await MurmurService.undoRemurmur(murmur.userId, murmur.remurmurOfId);
+      await MurmurService.decrementRetweetsCount(murmur.remurmurOfId);
+      return;
+    }
+
+    // Soft delete
+    await MurmurService.softDelete(murmur.id);
+
+    // A quote no longer counts towards the quoted murmur's remurmurs
+    if (murmur.quoteOfId) {
+      await MurmurService.decrementRetweetsCount(murmur.quoteOfId);
+    }
+
+    // Update user's murmur count only if it's not a reply
+    if (!murmur.replyToId) {
+      await UserService.updateCounts(murmur.userId, { murmursCount: -1 });
+    } else {
+      // If it's a reply, decrement the parent murmur's reply count
+      await MurmurService.decrementRepliesCount(murmur.replyToId);
+    }
+
+    // Delete associated likes
+    await LikeService.deleteAllByMurmur(murmur.id);
+  }
+
+  // Check that the user may reply to a murmur. Throws a PublishError when the
+  // murmur is gone, hidden from the user or blocked.
+  static async checkReplyTarget(userId: string, replyToId: string): Promise<void> {
+    const parentMurmur = await MurmurService.findById(replyToId);
+    if (!parentMurmur) {
+      throw new PublishError('Parent murmur not found', 404);
+    }
+
+    if (await BlockService.isBlockedEitherWay(userId, parentMurmur.userId)) {
+      throw new PublishError('You cannot reply to this murmur', 403);
+    }
+
+    if (!await MurmurService.isVisibleTo(parentMurmur.id, userId)) {
+      throw new PublishError('Parent murmur not found', 404);
+    }
+  }
+
+  // Push a new timeline entry to the event streams of followers who haven't muted the
+  // author. It goes out without any one viewer's state, so poll results stay hidden.
+  static async publishToFollowers(murmur: Murmur): Promise<void> {
+    const [followerIds, muterIds] = await Promise.all([
+      FollowService.getFollowerIds(murmur.userId),
+      MuteService.getMuterIds(murmur.userId),
+    ]);
+
+    const muters = new Set(muterIds);
+    publishToUsers(followerIds.filter(id => !muters.has(id)), 'timeline.murmur', {
+      murmur: await HydrationService.hydrateOne(murmur),
+    });
+  }
+
+  // Send a 'mention' notification to each user mentioned in the murmur, skipping
+  // the ones who were already mentioned (and notified) before and the ones who
+  // can't see it, e.g. non-followers of a private account
+  static async notifyMentions(
+    murmur: { id: string; userId: string; mentions?: { userId: string }[] },
+    alreadyMentioned: string[] = []
+  ): Promise<void> {
+    const previous = new Set(alreadyMentioned);
+    const mentionedIds = MentionService.getMentionedUserIds(murmur).filter(id => !previous.has(id));
+
+    await Promise.all(mentionedIds.map(async mentionedId => {
+      if (!await MurmurService.isVisibleTo(murmur.id, mentionedId)) return null;
+      return NotificationService.create('mention', mentionedId, murmur.userId, murmur.id);
+    }));
+  }
+}
+
+export default PublishService;
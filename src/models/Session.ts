@@ -0,0 +1,188 @@
+import { PrismaClient } from '@prisma/client';
+import { generateToken, hashToken } from '../lib/tokens';
+
+const prisma = new PrismaClient();
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS || '30');
+
+// Type for Session model from Prisma
+type Session = {
+  id: string;
+  userId: string;
+  deviceName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+export interface ISessionMeta {
+  deviceName?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// Never expose token hashes outside the service
+const sessionSelect = {
+  id: true,
+  userId: true,
+  deviceName: true,
+  ipAddress: true,
+  userAgent: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+const refreshExpiry = (): Date => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export class SessionService {
+  // Start a new session and issue its first refresh token
+  static async create(userId: string, meta: ISessionMeta): Promise<{
+    session: Session;
+    refreshToken: string;
+  }> {
+    const refreshToken = generateToken(48);
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        refreshTokenHash: hashToken(refreshToken),
+        deviceName: meta.deviceName ?? null,
+        ipAddress: meta.ipAddress ?? null,
+        userAgent: meta.userAgent ?? null,
+        expiresAt: refreshExpiry(),
+      },
+      select: sessionSelect,
+    });
+
+    return { session, refreshToken };
+  }
+
+  // Exchange a refresh token for a new one. Presenting an already rotated token
+  // means it leaked, so the whole session is revoked.
+  static async rotate(refreshToken: string, meta: ISessionMeta): Promise<{
+    session: Session;
+    refreshToken: string;
+  } | null> {
+    const tokenHash = hashToken(refreshToken);
+
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      select: sessionSelect,
+    });
+
+    if (!session) {
+      await prisma.session.updateMany({
+        where: {
+          previousTokenHash: tokenHash,
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+      return null;
+    }
+
+    if (session.revokedAt || session.expiresAt <= new Date()) {
+      return null;
+    }
+
+    const nextRefreshToken = generateToken(48);
+
+    // Rotate only if the token is still current, so of two refreshes racing with
+    // the same token just one wins; the other counts as reuse
+    const { count } = await prisma.session.updateMany({
+      where: {
+        id: session.id,
+        refreshTokenHash: tokenHash,
+        revokedAt: null,
+      },
+      data: {
+        refreshTokenHash: hashToken(nextRefreshToken),
+        previousTokenHash: tokenHash,
+        lastUsedAt: new Date(),
+        expiresAt: refreshExpiry(),
+        ...(meta.ipAddress && { ipAddress: meta.ipAddress }),
+        ...(meta.userAgent && { userAgent: meta.userAgent }),
+      },
+    });
+
+    // The token was used by another refresh in the meantime, so it leaked
+    if (count === 0) {
+      await prisma.session.updateMany({
+        where: {
+          id: session.id,
+          revokedAt: null,
+        },
+        data: { revokedAt: new Date() },
+      });
+      return null;
+    }
+
+    const updatedSession = await prisma.session.findUniqueOrThrow({
+      where: { id: session.id },
+      select: sessionSelect,
+    });
+
+    return { session: updatedSession, refreshToken: nextRefreshToken };
+  }
+
+  // Check that a session exists, belongs to the user and is still usable
+  static async isActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, expiresAt: true, revokedAt: true },
+    });
+
+    return !!session
+      && session.userId === userId
+      && !session.revokedAt
+      && session.expiresAt > new Date();
+  }
+
+  // Get a user's active sessions, most recently used first
+  static async getActiveSessions(userId: string): Promise<Session[]> {
+    return await prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: sessionSelect,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  // Revoke one of a user's sessions
+  static async revoke(sessionId: string, userId: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: null,
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count > 0;
+  }
+
+  // Revoke all of a user's sessions, optionally keeping the current one
+  static async revokeAllForUser(userId: string, exceptSessionId?: string): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return result.count;
+  }
+}
+
+export default SessionService;
@@ -0,0 +1,172 @@
+import { PrismaClient } from '@prisma/client';
+import MurmurService, { Murmur, murmurInclude } from './Murmur';
+import HydrationService, { HydratedMurmur } from './Hydration';
+
+const prisma = new PrismaClient();
+
+// Upper bound on how far up the reply chain a thread is followed
+const MAX_ANCESTORS = 50;
+
+// Placeholder for a deleted or hidden murmur, so replies to it keep their place in the tree
+export type ThreadTombstone = {
+  id: string;
+  replyToId: string | null;
+  createdAt: Date;
+  isTombstone: true;
+  reason: 'deleted' | 'unavailable';
+};
+
+export type ThreadEntry = HydratedMurmur | ThreadTombstone;
+
+export type ThreadNode = {
+  murmur: ThreadEntry;
+  replies: ThreadNode[];
+  // Replies that exist but were cut off by the per-murmur limit or the depth
+  moreRepliesCount: number;
+};
+
+export type Thread = {
+  ancestors: ThreadEntry[];
+  murmur: HydratedMurmur;
+  replies: ThreadNode[];
+  moreRepliesCount: number;
+};
+
+export interface ThreadOptions {
+  depth?: number;
+  limit?: number;
+  viewerId?: string | undefined;
+}
+
+type ChildRow = {
+  id: string;
+  replyToId: string;
+  siblingCount: number;
+};
+
+const toTombstone = (murmur: Murmur): ThreadTombstone => ({
+  id: murmur.id,
+  replyToId: murmur.replyToId,
+  createdAt: murmur.createdAt,
+  isTombstone: true,
+  reason: murmur.isDeleted ? 'deleted' : 'unavailable',
+});
+
+export class ThreadService {
+  // Get a murmur's conversation: its ancestors up to the root, then its replies as
+  // a tree. Among siblings the thread author's replies come first, then the rest by
+  // engagement. Deleted murmurs, and murmurs hidden from the viewer by a block or a
+  // private account, appear as tombstones while they have replies and are dropped otherwise.
+  static async getThread(murmurId: string, options: ThreadOptions = {}): Promise<Thread | null> {
+    const depth = options.depth ?? 3;
+    const limit = options.limit ?? 10;
+
+    const focal = await prisma.murmur.findUnique({
+      where: { id: murmurId },
+      include: murmurInclude,
+    });
+
+    if (!focal || focal.isDeleted || !await MurmurService.isVisibleTo(focal.id, options.viewerId)) return null;
+
+    // Walk up the reply chain, root first
+    const ancestors: Murmur[] = [];
+    let parentId = focal.replyToId;
+    while (parentId && ancestors.length < MAX_ANCESTORS) {
+      const parent = await prisma.murmur.findUnique({
+        where: { id: parentId },
+        include: murmurInclude,
+      });
+      if (!parent) break;
+      ancestors.unshift(parent);
+      parentId = parent.replyToId;
+    }
+
+    const rootAuthorId = (ancestors[0] ?? focal).userId;
+
+    // Fetch the replies one level at a time, keeping the best `limit` per parent
+    const childrenByParent = new Map<string, Murmur[]>();
+    const siblingCounts = new Map<string, number>();
+    const repliesCounts = new Map<string, number>([[focal.id, focal.repliesCount]]);
+    let levelIds = [focal.id];
+
+    for (let level = 0; level < depth && levelIds.length > 0; level++) {
+      const rows = await prisma.$queryRaw<ChildRow[]>`
+        SELECT "id", "replyToId", "siblingCount"
+        FROM (
+          SELECT
+            m."id",
+            m."replyToId",
+            (count(*) FILTER (WHERE NOT m."isDeleted") OVER (PARTITION BY m."replyToId"))::int AS "siblingCount",
+            row_number() OVER (
+              PARTITION BY m."replyToId"
+              ORDER BY
+                m."isDeleted" ASC,
+                (m."userId" = ${rootAuthorId}) DESC,
+                m."likesCount" + 2 * m."repliesCount" + 2 * m."retweetsCount" DESC,
+                m."createdAt" ASC
+            ) AS "position"
+          FROM "murmurs" m
+          WHERE m."replyToId" = ANY(${levelIds}::text[])
+        ) ranked
+        WHERE "position" <= ${limit}
+        ORDER BY "replyToId", "position"
+      `;
+
+      const murmurs = await prisma.murmur.findMany({
+        where: { id: { in: rows.map(row => row.id) } },
+        include: murmurInclude,
+      });
+      const murmursById = new Map(murmurs.map(murmur => [murmur.id, murmur]));
+
+      rows.forEach(row => {
+        const murmur = murmursById.get(row.id);
+        if (!murmur) return;
+        siblingCounts.set(row.replyToId, row.siblingCount);
+        repliesCounts.set(murmur.id, murmur.repliesCount);
+        childrenByParent.set(row.replyToId, [...(childrenByParent.get(row.replyToId) ?? []), murmur]);
+      });
+
+      levelIds = rows.map(row => row.id);
+    }
+
+    // Hydrate everything the viewer can see in one pass
+    const all = [focal, ...ancestors, ...[...childrenByParent.values()].flat()];
+    const visibleIds = await MurmurService.getVisibleIds(all.map(murmur => murmur.id), options.viewerId);
+    const isVisible = (murmur: Murmur) => !murmur.isDeleted && visibleIds.has(murmur.id);
+    const visible = all.filter(isVisible);
+    const hydrated = new Map(
+      (await HydrationService.hydrate(visible, options.viewerId)).map(murmur => [murmur.id, murmur])
+    );
+
+    const toEntry = (murmur: Murmur): ThreadEntry => hydrated.get(murmur.id) ?? toTombstone(murmur);
+
+    const buildReplies = (parentId: string, level: number): { replies: ThreadNode[]; moreRepliesCount: number } => {
+      const children = level < depth ? childrenByParent.get(parentId) ?? [] : [];
+      const replies: ThreadNode[] = [];
+
+      children.forEach(child => {
+        const { replies: grandchildren, moreRepliesCount } = buildReplies(child.id, level + 1);
+
+        // A tombstone is only worth showing if something hangs off it
+        if (!isVisible(child) && grandchildren.length === 0 && moreRepliesCount === 0) return;
+
+        replies.push({ murmur: toEntry(child), replies: grandchildren, moreRepliesCount });
+      });
+
+      // Past the depth limit the stored reply counter is all there is to go on
+      const moreRepliesCount = level < depth
+        ? Math.max((siblingCounts.get(parentId) ?? 0) - children.filter(child => !child.isDeleted).length, 0)
+        : repliesCounts.get(parentId) ?? 0;
+
+      return { replies, moreRepliesCount };
+    };
+
+    return {
+      ancestors: ancestors.map(toEntry),
+      murmur: hydrated.get(focal.id)!,
+      ...buildReplies(focal.id, 0),
+    };
+  }
+}
+
+export default ThreadService;
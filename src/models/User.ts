@@ -1,8 +1,34 @@
-import { PrismaClient, User } from '@prisma/client';
+import { PrismaClient, Prisma, User, UserRole } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+import {
+  ProfileImageKind,
+  deleteProfileImage,
+  primaryProfileImageUrl,
+  renderProfileImage,
+  storeProfileImage,
+} from '../lib/images';
+import { HEADLINE_OPTIONS, SEARCH_CONFIG, buildTsQuery } from '../lib/search';
 
 const prisma = new PrismaClient();
 
+// Profile fields anyone may see, for user listings such as search results
+const publicProfileSelect = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  username: true,
+  displayName: true,
+  avatar: true,
+  banner: true,
+  bio: true,
+  followersCount: true,
+  followingCount: true,
+  murmursCount: true,
+  isPrivate: true,
+  createdAt: true,
+});
+
+export type PublicProfile = Prisma.UserGetPayload<{ select: typeof publicProfileSelect }>;
+
 export interface IUserCreate {
   username: string;
   email: string;
@@ -18,6 +44,9 @@ export interface IUserUpdate {
   displayName?: string;
   avatar?: string;
   bio?: string;
+  isPrivate?: boolean;
+  dmsOpen?: boolean;
+  notifyListAdds?: boolean;
 }
 
 export class UserService {
@@ -114,6 +143,172 @@ export class UserService {
     }
   }
 
+  // Activate or deactivate a user. Deactivated users can't sign in and their
+  // content is hidden. Used by admins and moderators, so it overrides a
+  // deactivation the user made themselves; reactivating also cancels any
+  // scheduled deletion.
+  static async setActive(id: string, isActive: boolean): Promise<void> {
+    await prisma.user.update({
+      where: { id },
+      data: {
+        isActive,
+        deactivatedAt: null,
+        ...(isActive && { deletionScheduledAt: null }),
+      },
+    });
+  }
+
+  // Deactivate the user's own account, optionally scheduling it for deletion.
+  // Signing in again undoes both.
+  static async deactivate(id: string, deletionScheduledAt: Date | null = null): Promise<void> {
+    await prisma.user.update({
+      where: { id },
+      data: {
+        isActive: false,
+        deactivatedAt: new Date(),
+        deletionScheduledAt,
+      },
+    });
+  }
+
+  // Reactivate an account the user deactivated themselves, cancelling any
+  // scheduled deletion
+  static async reactivate(id: string): Promise<Omit<User, 'password'>> {
+    const { password, ...user } = await prisma.user.update({
+      where: { id },
+      data: {
+        isActive: true,
+        deactivatedAt: null,
+        deletionScheduledAt: null,
+      },
+    });
+    return user;
+  }
+
+  // Whether the user deactivated their account themselves and can still undo it
+  // by signing in. Accounts past their deletion date are about to be purged.
+  static canReactivate(user: Pick<User, 'isActive' | 'deactivatedAt' | 'deletionScheduledAt'>): boolean {
+    return !user.isActive
+      && user.deactivatedAt !== null
+      && (user.deletionScheduledAt === null || user.deletionScheduledAt.getTime() > Date.now());
+  }
+
+  // Change a user's role
+  static async setRole(id: string, role: UserRole): Promise<void> {
+    await prisma.user.update({
+      where: { id },
+      data: { role },
+    });
+  }
+
+  // Find users for the admin API, including deactivated ones. The query matches
+  // the ID exactly or part of the username, display name or email.
+  static async findForAdmin(
+    filters: { query?: string | undefined; role?: UserRole | undefined; isActive?: boolean | undefined },
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{
+    users: Omit<User, 'password'>[];
+    totalCount: number;
+  }> {
+    const where: Prisma.UserWhereInput = {
+      ...(filters.role && { role: filters.role }),
+      ...(filters.isActive !== undefined && { isActive: filters.isActive }),
+      ...(filters.query && {
+        OR: [
+          { id: filters.query },
+          { username: { contains: filters.query, mode: 'insensitive' } },
+          { displayName: { contains: filters.query, mode: 'insensitive' } },
+          { email: { contains: filters.query, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [users, totalCount] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      prisma.user.count({ where }),
+    ]);
+
+    // Remove passwords from response
+    return {
+      users: users.map(({ password, ...userWithoutPassword }) => userWithoutPassword),
+      totalCount,
+    };
+  }
+
+  // Update password
+  static async updatePassword(id: string, newPassword: string): Promise<void> {
+    const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+    await prisma.user.update({
+      where: { id },
+      data: { password: hashedPassword },
+    });
+  }
+
+  // Mark email address as verified
+  static async markEmailVerified(id: string): Promise<void> {
+    await prisma.user.updateMany({
+      where: {
+        id,
+        emailVerifiedAt: null,
+      },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
+
+  // Replace a user's avatar or banner with a newly uploaded image, removing the old files
+  static async setProfileImage(id: string, kind: ProfileImageKind, data: Buffer): Promise<Omit<User, 'password'>> {
+    const prefix = `${kind}s/${id}/${crypto.randomBytes(8).toString('hex')}`;
+    await storeProfileImage(prefix, await renderProfileImage(data, kind));
+
+    const current = await prisma.user.findUniqueOrThrow({
+      where: { id },
+      select: { avatarKey: true, bannerKey: true },
+    });
+
+    const { password, ...user } = await prisma.user.update({
+      where: { id },
+      data: kind === 'avatar'
+        ? { avatar: primaryProfileImageUrl(kind, prefix), avatarKey: prefix }
+        : { banner: primaryProfileImageUrl(kind, prefix), bannerKey: prefix },
+    });
+
+    const previousKey = kind === 'avatar' ? current.avatarKey : current.bannerKey;
+    if (previousKey) {
+      await deleteProfileImage(kind, previousKey);
+    }
+
+    return user;
+  }
+
+  // Remove a user's avatar or banner and its files
+  static async removeProfileImage(id: string, kind: ProfileImageKind): Promise<Omit<User, 'password'>> {
+    const current = await prisma.user.findUniqueOrThrow({
+      where: { id },
+      select: { avatarKey: true, bannerKey: true },
+    });
+
+    const { password, ...user } = await prisma.user.update({
+      where: { id },
+      data: kind === 'avatar'
+        ? { avatar: null, avatarKey: null }
+        : { banner: null, bannerKey: null },
+    });
+
+    const previousKey = kind === 'avatar' ? current.avatarKey : current.bannerKey;
+    if (previousKey) {
+      await deleteProfileImage(kind, previousKey);
+    }
+
+    return user;
+  }
+
   // Update last login
   static async updateLastLogin(id: string): Promise<void> {
     await prisma.user.update({
@@ -146,37 +341,58 @@ export class UserService {
     });
   }
 
-  // Search users
-  static async search(query: string, limit: number = 20, offset: number = 0): Promise<Omit<User, 'password'>[]> {
+  // Full-text search over usernames and display names, most relevant first (ties
+  // go to the more followed user). Each user gets a <mark>ed displayName snippet.
+  static async search(query: string, limit: number = 20, offset: number = 0): Promise<{
+    users: (PublicProfile & { searchRank: number; snippet: string })[];
+    totalCount: number;
+  }> {
+    const tsQuery = buildTsQuery(query);
+    if (!tsQuery) {
+      return { users: [], totalCount: 0 };
+    }
+
+    const matches = Prisma.sql`
+      FROM "users" u
+      CROSS JOIN to_tsquery(${SEARCH_CONFIG}::regconfig, ${tsQuery}) AS query
+      WHERE u."searchVector" @@ query
+        AND u."isActive" = true
+    `;
+
+    const [rows, countResult] = await Promise.all([
+      prisma.$queryRaw<{ id: string; rank: number; snippet: string }[]>`
+        SELECT
+          u."id",
+          ts_rank(u."searchVector", query) AS "rank",
+          ts_headline(
+            ${SEARCH_CONFIG}::regconfig,
+            replace(replace(replace(u."displayName", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+            query,
+            ${HEADLINE_OPTIONS}
+          ) AS "snippet"
+        ${matches}
+        ORDER BY "rank" DESC, u."followersCount" DESC, u."id"
+        LIMIT ${limit} OFFSET ${offset}
+      `,
+      prisma.$queryRaw<{ count: number }[]>`SELECT count(*)::int AS "count" ${matches}`,
+    ]);
+
     const users = await prisma.user.findMany({
-      where: {
-        OR: [
-          { username: { contains: query, mode: 'insensitive' } },
-          { displayName: { contains: query, mode: 'insensitive' } }
-        ],
-        isActive: true,
-      },
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        displayName: true,
-        avatar: true,
-        bio: true,
-        followersCount: true,
-        followingCount: true,
-        murmursCount: true,
-        isActive: true,
-        lastLogin: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-      orderBy: { followersCount: 'desc' },
-      take: limit,
-      skip: offset,
+      where: { id: { in: rows.map(row => row.id) } },
+      select: publicProfileSelect,
     });
+    const usersById = new Map(users.map(user => [user.id, user]));
 
-    return users;
+    return {
+      users: rows
+        .filter(row => usersById.has(row.id))
+        .map(row => ({
+          ...usersById.get(row.id)!,
+          searchRank: row.rank,
+          snippet: row.snippet,
+        })),
+      totalCount: countResult[0]?.count ?? 0,
+    };
   }
 
   // Get user with relations
@@ -0,0 +1,403 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { Prisma, UserRole } from '@prisma/client';
+import UserService from '../models/User';
+import MurmurService from '../models/Murmur';
+import SessionService from '../models/Session';
+import PublishService from '../models/Publish';
+import AuditLogService, { AuditAction, AuditTargetType } from '../models/AuditLog';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+const USER_ROLES = Object.values(UserRole);
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+const pageValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+];
+
+const reasonValidation = body('reason')
+  .optional()
+  .isString()
+  .trim()
+  .isLength({ max: 500 })
+  .withMessage('Reason must be at most 500 characters');
+
+const toPagination = (page: number, limit: number, totalCount: number) => ({
+  page,
+  limit,
+  totalCount,
+  totalPages: Math.ceil(totalCount / limit),
+  hasNextPage: page * limit < totalCount,
+  hasPreviousPage: page > 1,
+});
+
+// Write an admin action to the audit log
+const audit = (
+  req: AuthRequest,
+  action: AuditAction,
+  targetType: AuditTargetType,
+  targetId: string,
+  details?: Prisma.InputJsonObject
+) => AuditLogService.record({
+  actorId: req.user!.id,
+  action,
+  targetType,
+  targetId,
+  details,
+  ipAddress: req.ip ?? null,
+});
+
+// Search users, including suspended ones
+router.get('/users', authenticate, requireRole('admin'), [
+  query('q')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Query must be between 1 and 100 characters'),
+  query('role')
+    .optional()
+    .isIn(USER_ROLES)
+    .withMessage(`Role must be one of: ${USER_ROLES.join(', ')}`),
+  query('isActive')
+    .optional()
+    .isBoolean()
+    .withMessage('isActive must be a boolean'),
+  ...pageValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { users, totalCount } = await UserService.findForAdmin({
+      query: req.query.q as string | undefined,
+      role: req.query.role as UserRole | undefined,
+      isActive: req.query.isActive === undefined ? undefined : req.query.isActive === 'true',
+    }, limit, (page - 1) * limit);
+
+    return res.json({
+      success: true,
+      data: {
+        users,
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Admin search users error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to search users',
+    });
+  }
+});
+
+// Suspend a user: they can't sign in, their sessions end and their content is hidden
+router.post('/users/:userId/suspend', authenticate, requireRole('admin'), [
+  reasonValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.params.userId;
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    if (userId === req.user!.id) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot suspend yourself',
+      });
+    }
+
+    const user = await UserService.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    // A user who deactivated their own account can still be suspended, so they
+    // can't reactivate it by signing in
+    if (!user.isActive && !user.deactivatedAt) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already suspended',
+      });
+    }
+
+    await UserService.setActive(userId, false);
+    const revokedCount = await SessionService.revokeAllForUser(userId);
+    await audit(req, 'user.suspend', 'user', userId, {
+      ...(req.body.reason && { reason: req.body.reason }),
+      revokedSessions: revokedCount,
+    });
+
+    return res.json({
+      success: true,
+      message: 'User suspended successfully',
+      data: {
+        isActive: false,
+      },
+    });
+  } catch (error) {
+    console.error('Admin suspend user error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to suspend user',
+    });
+  }
+});
+
+// Reactivate a suspended user
+router.post('/users/:userId/reactivate', authenticate, requireRole('admin'), [
+  reasonValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.params.userId;
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const user = await UserService.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (user.isActive) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is not suspended',
+      });
+    }
+
+    await UserService.setActive(userId, true);
+    await audit(req, 'user.reactivate', 'user', userId, {
+      ...(req.body.reason && { reason: req.body.reason }),
+    });
+
+    return res.json({
+      success: true,
+      message: 'User reactivated successfully',
+      data: {
+        isActive: true,
+      },
+    });
+  } catch (error) {
+    console.error('Admin reactivate user error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reactivate user',
+    });
+  }
+});
+
+// Change a user's role
+router.put('/users/:userId/role', authenticate, requireRole('admin'), [
+  body('role')
+    .isIn(USER_ROLES)
+    .withMessage(`Role must be one of: ${USER_ROLES.join(', ')}`),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.params.userId;
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    // Keeps admins from locking themselves (and possibly everyone) out
+    if (userId === req.user!.id) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot change your own role',
+      });
+    }
+
+    const user = await UserService.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const role: UserRole = req.body.role;
+    if (user.role !== role) {
+      await UserService.setRole(userId, role);
+      await audit(req, 'user.role_change', 'user', userId, { from: user.role, to: role });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Role updated successfully',
+      data: {
+        role,
+      },
+    });
+  } catch (error) {
+    console.error('Admin change role error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to change role',
+    });
+  }
+});
+
+// Sign a user out everywhere
+router.post('/users/:userId/sessions/reset', authenticate, requireRole('admin'), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.params.userId;
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const user = await UserService.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const revokedCount = await SessionService.revokeAllForUser(userId);
+    await audit(req, 'user.sessions_reset', 'user', userId, { revokedSessions: revokedCount });
+
+    return res.json({
+      success: true,
+      message: 'Sessions reset successfully',
+      data: {
+        revokedCount,
+      },
+    });
+  } catch (error) {
+    console.error('Admin reset sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reset sessions',
+    });
+  }
+});
+
+// Delete any user's murmur
+router.delete('/murmurs/:id', authenticate, requireRole('admin'), [
+  reasonValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const murmur = await MurmurService.findById(murmurId);
+    if (!murmur) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    await PublishService.unpublish(murmur);
+    await audit(req, 'murmur.delete', 'murmur', murmurId, {
+      authorId: murmur.userId,
+      content: murmur.content,
+      ...(req.body.reason && { reason: req.body.reason }),
+    });
+
+    return res.json({
+      success: true,
+      message: 'Murmur deleted successfully',
+    });
+  } catch (error) {
+    console.error('Admin delete murmur error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete murmur',
+    });
+  }
+});
+
+// Get the audit log, newest first
+router.get('/audit-log', authenticate, requireRole('admin'), [
+  query('actorId')
+    .optional()
+    .isString()
+    .withMessage('Actor ID must be a string'),
+  query('action')
+    .optional()
+    .isString()
+    .withMessage('Action must be a string'),
+  query('targetType')
+    .optional()
+    .isIn(['user', 'murmur', 'moderation_case'])
+    .withMessage('Target type must be user, murmur or moderation_case'),
+  query('targetId')
+    .optional()
+    .isString()
+    .withMessage('Target ID must be a string'),
+  ...pageValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+
+    const { entries, totalCount } = await AuditLogService.getEntries({
+      actorId: req.query.actorId as string | undefined,
+      action: req.query.action as AuditAction | undefined,
+      targetType: req.query.targetType as AuditTargetType | undefined,
+      targetId: req.query.targetId as string | undefined,
+    }, limit, (page - 1) * limit);
+
+    return res.json({
+      success: true,
+      data: {
+        entries,
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Admin get audit log error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit log',
+    });
+  }
+});
+
+export default router;
@@ -1,11 +1,34 @@
 import express from 'express';
 import { body, validationResult } from 'express-validator';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import rateLimit from 'express-rate-limit';
 import UserService from '../models/User';
+import SessionService from '../models/Session';
+import AuthTokenService from '../models/AuthToken';
+import FollowRequestService from '../models/FollowRequest';
+import NotificationService from '../models/Notification';
+import AccountDeletionService, { ACCOUNT_DELETION_GRACE_DAYS } from '../models/AccountDeletion';
 import { authenticate, AuthRequest } from '../middleware/auth';
+import { signAccessToken } from '../lib/tokens';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../lib/emails';
+import { ProfileImageKind, profileImageUrls } from '../lib/images';
+import { probeImage } from '../lib/media';
+import { IMAGE_MIME_TYPES, MAX_IMAGE_BYTES, singleFile } from '../middleware/upload';
 
 const router = express.Router();
 
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Endpoints that send email get a much tighter limit than the global one
+const emailLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+  message: {
+    success: false,
+    error: 'Too many requests, please try again later.',
+  },
+});
+
 // Validation middleware
 const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const errors = validationResult(req);
@@ -19,6 +42,45 @@ const handleValidationErrors = (req: express.Request, res: express.Response, nex
   return next();
 };
 
+// Device details recorded with a session
+const getSessionMeta = (req: express.Request) => ({
+  deviceName: req.body.deviceName || null,
+  ipAddress: req.ip || null,
+  userAgent: req.get('user-agent')?.substring(0, 500) || null,
+});
+
+// Start a session and issue its access and refresh tokens
+const startSession = async (req: express.Request, userId: string) => {
+  const { session, refreshToken } = await SessionService.create(userId, getSessionMeta(req));
+
+  return {
+    token: signAccessToken(userId, session.id),
+    refreshToken,
+  };
+};
+
+// Issue a verification token and email it; failures are logged, not fatal
+const sendVerification = async (user: { id: string; email: string; displayName: string }) => {
+  try {
+    const token = await AuthTokenService.issue(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MS);
+    await sendVerificationEmail(user, token);
+  } catch (error) {
+    console.error('Send verification email error:', error);
+  }
+};
+
+const passwordValidation = (field: string) => body(field)
+  .isLength({ min: 8 })
+  .withMessage('Password must be at least 8 characters long')
+  .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+  .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number');
+
+const deviceNameValidation = body('deviceName')
+  .optional()
+  .isLength({ max: 100 })
+  .withMessage('Device name must be less than 100 characters')
+  .trim();
+
 // Register endpoint
 router.post('/register', [
   body('username')
@@ -34,11 +96,8 @@ router.post('/register', [
     .isLength({ min: 1, max: 50 })
     .withMessage('Display name must be between 1 and 50 characters')
     .trim(),
-  body('password')
-    .isLength({ min: 8 })
-    .withMessage('Password must be at least 8 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage('Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+  passwordValidation('password'),
+  deviceNameValidation,
 ], handleValidationErrors, async (req: express.Request, res: express.Response) => {
   try {
     const { username, email, displayName, password } = req.body;
@@ -69,27 +128,21 @@ router.post('/register', [
       password,
     });
 
-    // Generate JWT token
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET is not defined in environment variables');
-    }
-
-    const token = jwt.sign(
-      { userId: user.id },
-      jwtSecret,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as SignOptions
-    );
+    // Start a session for this device
+    const { token, refreshToken } = await startSession(req, user.id);
 
     // Update last login
     await UserService.updateLastLogin(user.id);
 
+    await sendVerification(user);
+
     return res.status(201).json({
       success: true,
       message: 'User registered successfully',
       data: {
         user,
         token,
+        refreshToken,
       },
     });
   } catch (error) {
@@ -109,6 +162,7 @@ router.post('/login', [
   body('password')
     .notEmpty()
     .withMessage('Password is required'),
+  deviceNameValidation,
 ], handleValidationErrors, async (req: express.Request, res: express.Response) => {
   try {
     const { identifier, password } = req.body;
@@ -116,7 +170,8 @@ router.post('/login', [
     // Find user by email or username
     const user = await UserService.findByEmailOrUsername(identifier);
 
-    if (!user || !user.isActive) {
+    // Users who deactivated their own account may sign in to reactivate it
+    if (!user || (!user.isActive && !UserService.canReactivate(user))) {
       return res.status(401).json({
         success: false,
         error: 'Invalid credentials',
@@ -132,30 +187,25 @@ router.post('/login', [
       });
     }
 
-    // Generate JWT token
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET is not defined in environment variables');
-    }
+    // Signing in undoes a deactivation and cancels any scheduled deletion
+    const reactivated = !user.isActive;
+    const { password: _, ...userWithoutPassword } = user;
+    const loggedInUser = reactivated ? await UserService.reactivate(user.id) : userWithoutPassword;
 
-    const token = jwt.sign(
-      { userId: user.id },
-      jwtSecret,
-      { expiresIn: process.env.JWT_EXPIRES_IN || '7d' } as SignOptions
-    );
+    // Start a session for this device
+    const { token, refreshToken } = await startSession(req, user.id);
 
     // Update last login
     await UserService.updateLastLogin(user.id);
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
-
     return res.json({
       success: true,
-      message: 'Login successful',
+      message: reactivated ? 'Welcome back! Your account has been reactivated' : 'Login successful',
       data: {
-        user: userWithoutPassword,
+        user: loggedInUser,
         token,
+        refreshToken,
+        ...(reactivated && { reactivated: true }),
       },
     });
   } catch (error) {
@@ -167,6 +217,254 @@ router.post('/login', [
   }
 });
 
+// Refresh tokens - the refresh token is rotated on every use
+router.post('/refresh', [
+  body('refreshToken')
+    .notEmpty()
+    .withMessage('Refresh token is required'),
+], handleValidationErrors, async (req: express.Request, res: express.Response) => {
+  try {
+    const rotated = await SessionService.rotate(req.body.refreshToken, getSessionMeta(req));
+
+    if (!rotated) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token',
+      });
+    }
+
+    const user = await UserService.findById(rotated.session.userId);
+    if (!user || !user.isActive) {
+      await SessionService.revoke(rotated.session.id, rotated.session.userId);
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or inactive user',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        token: signAccessToken(user.id, rotated.session.id),
+        refreshToken: rotated.refreshToken,
+      },
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to refresh token',
+    });
+  }
+});
+
+// Logout - ends the current session, or every session with allDevices
+router.post('/logout', authenticate, [
+  body('allDevices')
+    .optional()
+    .isBoolean()
+    .withMessage('allDevices must be a boolean'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.user!.id;
+
+    if (req.body.allDevices === true || req.body.allDevices === 'true') {
+      await SessionService.revokeAllForUser(userId);
+    } else if (req.sessionId) {
+      await SessionService.revoke(req.sessionId, userId);
+    }
+
+    return res.json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Logout failed',
+    });
+  }
+});
+
+// List active sessions
+router.get('/sessions', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const sessions = await SessionService.getActiveSessions(req.user!.id);
+
+    return res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          ...session,
+          isCurrent: session.id === req.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sessions',
+    });
+  }
+});
+
+// Revoke a session
+router.delete('/sessions/:id', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const sessionId = req.params.id;
+    if (!sessionId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Session ID is required',
+      });
+    }
+
+    const revoked = await SessionService.revoke(sessionId, req.user!.id);
+    if (!revoked) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+    });
+  }
+});
+
+// Request a password reset email. Always answers the same way so it can't be
+// used to find out which emails are registered.
+router.post('/forgot-password', emailLimiter, [
+  body('email')
+    .isEmail()
+    .withMessage('Please provide a valid email')
+    .normalizeEmail(),
+], handleValidationErrors, async (req: express.Request, res: express.Response) => {
+  try {
+    const user = await UserService.findByEmail(req.body.email);
+
+    if (user && user.isActive) {
+      const token = await AuthTokenService.issue(user.id, 'password_reset', PASSWORD_RESET_TTL_MS);
+      await sendPasswordResetEmail(user, token);
+    }
+
+    return res.json({
+      success: true,
+      message: 'If that email is registered, a password reset link has been sent',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to request password reset',
+    });
+  }
+});
+
+// Reset password with an emailed token
+router.post('/reset-password', [
+  body('token')
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  passwordValidation('password'),
+], handleValidationErrors, async (req: express.Request, res: express.Response) => {
+  try {
+    const { token, password } = req.body;
+
+    const userId = await AuthTokenService.consume(token, 'password_reset');
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid or expired reset token',
+      });
+    }
+
+    await UserService.updatePassword(userId, password);
+
+    // The link proves ownership of the address
+    await UserService.markEmailVerified(userId);
+
+    // Whoever knew the old password is signed out everywhere
+    await SessionService.revokeAllForUser(userId);
+
+    return res.json({
+      success: true,
+      message: 'Password reset successfully',
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reset password',
+    });
+  }
+});
+
+// Verify email address with an emailed token
+router.post('/verify-email', [
+  body('token')
+    .notEmpty()
+    .withMessage('Verification token is required'),
+], handleValidationErrors, async (req: express.Request, res: express.Response) => {
+  try {
+    const userId = await AuthTokenService.consume(req.body.token, 'email_verification');
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid or expired verification token',
+      });
+    }
+
+    await UserService.markEmailVerified(userId);
+
+    return res.json({
+      success: true,
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to verify email',
+    });
+  }
+});
+
+// Resend the verification email
+router.post('/resend-verification', authenticate, emailLimiter, async (req: AuthRequest, res: express.Response) => {
+  try {
+    if (req.user!.emailVerifiedAt) {
+      return res.status(409).json({
+        success: false,
+        error: 'Email is already verified',
+      });
+    }
+
+    await sendVerification(req.user!);
+
+    return res.json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to resend verification email',
+    });
+  }
+});
+
 // Get current user
 router.get('/me', authenticate, async (req: AuthRequest, res: express.Response) => {
   try {
@@ -197,14 +495,32 @@ router.put('/me', authenticate, [
     .isLength({ max: 160 })
     .withMessage('Bio must be less than 160 characters')
     .trim(),
+  body('isPrivate')
+    .optional()
+    .isBoolean()
+    .withMessage('isPrivate must be a boolean')
+    .toBoolean(),
+  body('dmsOpen')
+    .optional()
+    .isBoolean()
+    .withMessage('dmsOpen must be a boolean')
+    .toBoolean(),
+  body('notifyListAdds')
+    .optional()
+    .isBoolean()
+    .withMessage('notifyListAdds must be a boolean')
+    .toBoolean(),
 ], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
-    const { displayName, bio } = req.body;
-    const userId = req.user.id;
+    const { displayName, bio, isPrivate, dmsOpen, notifyListAdds } = req.body;
+    const userId = req.user!.id;
 
     const user = await UserService.update(userId, {
       displayName,
       bio,
+      isPrivate,
+      dmsOpen,
+      notifyListAdds,
     });
 
     if (!user) {
@@ -214,11 +530,28 @@ router.put('/me', authenticate, [
       });
     }
 
+    // Going public lets in everyone who was waiting for approval
+    let newFollowerIds: string[] = [];
+    if (isPrivate === false) {
+      newFollowerIds = await FollowRequestService.acceptAll(userId);
+
+      if (newFollowerIds.length > 0) {
+        await Promise.all([
+          UserService.updateCounts(userId, { followersCount: newFollowerIds.length }),
+          ...newFollowerIds.map(followerId => UserService.updateCounts(followerId, { followingCount: 1 })),
+          ...newFollowerIds.map(followerId => NotificationService.create('follow_accept', followerId, userId)),
+        ]);
+      }
+    }
+
     return res.json({
       success: true,
       message: 'Profile updated successfully',
       data: {
-        user,
+        user: {
+          ...user,
+          followersCount: user.followersCount + newFollowerIds.length,
+        },
       },
     });
   } catch (error) {
@@ -230,6 +563,71 @@ router.put('/me', authenticate, [
   }
 });
 
+// Upload a new avatar or banner, replacing the current one
+const uploadProfileImage = (kind: ProfileImageKind) => async (req: AuthRequest, res: express.Response) => {
+  try {
+    const file = req.file!;
+
+    if (!await probeImage(file.buffer)) {
+      return res.status(415).json({
+        success: false,
+        error: 'File is not a valid image',
+      });
+    }
+
+    const user = await UserService.setProfileImage(req.user!.id, kind, file.buffer);
+    const key = kind === 'avatar' ? user.avatarKey : user.bannerKey;
+
+    return res.json({
+      success: true,
+      message: `${kind === 'avatar' ? 'Avatar' : 'Banner'} updated successfully`,
+      data: {
+        user,
+        images: key ? profileImageUrls(kind, key) : {},
+      },
+    });
+  } catch (error) {
+    console.error(`Update ${kind} error:`, error);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to update ${kind}`,
+    });
+  }
+};
+
+// Remove the current avatar or banner
+const removeProfileImage = (kind: ProfileImageKind) => async (req: AuthRequest, res: express.Response) => {
+  try {
+    const user = await UserService.removeProfileImage(req.user!.id, kind);
+
+    return res.json({
+      success: true,
+      message: `${kind === 'avatar' ? 'Avatar' : 'Banner'} removed successfully`,
+      data: {
+        user,
+      },
+    });
+  } catch (error) {
+    console.error(`Remove ${kind} error:`, error);
+    return res.status(500).json({
+      success: false,
+      error: `Failed to remove ${kind}`,
+    });
+  }
+};
+
+// Update avatar
+router.put('/me/avatar', authenticate, singleFile('avatar', IMAGE_MIME_TYPES, MAX_IMAGE_BYTES), uploadProfileImage('avatar'));
+
+// Remove avatar
+router.delete('/me/avatar', authenticate, removeProfileImage('avatar'));
+
+// Update profile banner
+router.put('/me/banner', authenticate, singleFile('banner', IMAGE_MIME_TYPES, MAX_IMAGE_BYTES), uploadProfileImage('banner'));
+
+// Remove profile banner
+router.delete('/me/banner', authenticate, removeProfileImage('banner'));
+
 // Change password
 router.put('/me/password', authenticate, [
   body('currentPassword')
@@ -243,10 +641,10 @@ router.put('/me/password', authenticate, [
 ], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
     const { currentPassword, newPassword } = req.body;
-    const userId = req.user.id;
+    const userId = req.user!.id;
 
     // Get user with password for verification
-    const userWithPassword = await UserService.findByEmailOrUsername(req.user.email);
+    const userWithPassword = await UserService.findByEmailOrUsername(req.user!.email);
     if (!userWithPassword) {
       return res.status(404).json({
         success: false,
@@ -263,18 +661,10 @@ router.put('/me/password', authenticate, [
       });
     }
 
-    // Update password by creating new user data with hashed password
-    const bcrypt = require('bcryptjs');
-    const hashedPassword = await bcrypt.hash(newPassword, 12);
-    
-    // This is a simplified approach - in production you might want a dedicated updatePassword method
-    const { PrismaClient } = require('@prisma/client');
-    const prisma = new PrismaClient();
-    
-    await prisma.user.update({
-      where: { id: userId },
-      data: { password: hashedPassword },
-    });
+    await UserService.updatePassword(userId, newPassword);
+
+    // Sign out every other device
+    await SessionService.revokeAllForUser(userId, req.sessionId);
 
     return res.json({
       success: true,
@@ -289,4 +679,80 @@ router.put('/me/password', authenticate, [
   }
 });
 
+// Check the signed-in user's password before a destructive account change
+const isOwnPassword = async (req: AuthRequest, password: string): Promise<boolean> => {
+  const userWithPassword = await UserService.findByEmailOrUsername(req.user!.email);
+  return !!userWithPassword && await UserService.verifyPassword(userWithPassword, password);
+};
+
+const confirmPasswordValidation = body('password')
+  .notEmpty()
+  .withMessage('Password is required');
+
+// Deactivate the current user's account: they are signed out everywhere and
+// their content is hidden until they sign in again
+router.post('/me/deactivate', authenticate, [
+  confirmPasswordValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.user!.id;
+
+    if (!await isOwnPassword(req, req.body.password)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Password is incorrect',
+      });
+    }
+
+    await UserService.deactivate(userId);
+    await SessionService.revokeAllForUser(userId);
+
+    return res.json({
+      success: true,
+      message: 'Account deactivated. Sign in again to reactivate it.',
+    });
+  } catch (error) {
+    console.error('Deactivate account error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to deactivate account',
+    });
+  }
+});
+
+// Delete the current user's account. It is deactivated now and purged after the
+// grace period; signing in before then cancels the deletion.
+router.delete('/me', authenticate, [
+  confirmPasswordValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.user!.id;
+
+    if (!await isOwnPassword(req, req.body.password)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Password is incorrect',
+      });
+    }
+
+    const deletionScheduledAt = AccountDeletionService.getDeletionDate();
+    await UserService.deactivate(userId, deletionScheduledAt);
+    await SessionService.revokeAllForUser(userId);
+
+    return res.json({
+      success: true,
+      message: `Account scheduled for deletion. Sign in within ${ACCOUNT_DELETION_GRACE_DAYS} days to cancel.`,
+      data: {
+        deletionScheduledAt,
+      },
+    });
+  } catch (error) {
+    console.error('Delete account error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete account',
+    });
+  }
+});
+
 export default router;
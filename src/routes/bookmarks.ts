@@ -0,0 +1,269 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import BookmarkService from '../models/Bookmark';
+import BookmarkFolderService from '../models/BookmarkFolder';
+import HydrationService from '../models/Hydration';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { buildPagination, getPaginationParams, paginationValidation, toPageOptions } from '../lib/pagination';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+const folderNameValidation = body('name')
+  .isString()
+  .trim()
+  .isLength({ min: 1, max: 50 })
+  .withMessage('Folder name must be between 1 and 50 characters');
+
+// Check that a folder exists and belongs to the user
+const findOwnFolder = async (folderId: string, userId: string) => {
+  const folder = await BookmarkFolderService.findById(folderId);
+  return folder && folder.userId === userId ? folder : null;
+};
+
+// Get the current user's bookmarks; ?folderId=<id> for one folder, ?folderId=none
+// for bookmarks outside any folder
+router.get('/', authenticate, [
+  query('folderId')
+    .optional()
+    .isString()
+    .withMessage('Folder ID must be a string'),
+  ...paginationValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const pagination = getPaginationParams(req, 20);
+    const userId = req.user!.id;
+    const folderQuery = req.query.folderId as string | undefined;
+
+    if (folderQuery && folderQuery !== 'none' && !await findOwnFolder(folderQuery, userId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Folder not found',
+      });
+    }
+
+    const { bookmarks, ...pageInfo } = await BookmarkService.getBookmarks(userId, {
+      ...toPageOptions(pagination),
+      folderId: folderQuery === 'none' ? null : folderQuery,
+    });
+
+    const murmurs = await HydrationService.hydrate(bookmarks.map((bookmark: any) => bookmark.murmur), userId);
+
+    return res.json({
+      success: true,
+      data: {
+        bookmarks: bookmarks.map((bookmark, index) => ({
+          id: bookmark.id,
+          folderId: bookmark.folderId,
+          createdAt: bookmark.createdAt,
+          murmur: murmurs[index],
+        })),
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get bookmarks error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch bookmarks',
+    });
+  }
+});
+
+// Get the current user's bookmark folders
+router.get('/folders', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const folders = await BookmarkFolderService.getFolders(req.user!.id);
+
+    return res.json({
+      success: true,
+      data: {
+        folders,
+      },
+    });
+  } catch (error) {
+    console.error('Get bookmark folders error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch bookmark folders',
+    });
+  }
+});
+
+// Create a bookmark folder
+router.post('/folders', authenticate, [
+  folderNameValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const { name } = req.body;
+    const userId = req.user!.id;
+
+    if (await BookmarkFolderService.findByName(userId, name)) {
+      return res.status(409).json({
+        success: false,
+        error: 'A folder with this name already exists',
+      });
+    }
+
+    const folder = await BookmarkFolderService.create(userId, name);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Folder created successfully',
+      data: {
+        folder,
+      },
+    });
+  } catch (error) {
+    console.error('Create bookmark folder error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create folder',
+    });
+  }
+});
+
+// Rename a bookmark folder
+router.put('/folders/:id', authenticate, [
+  folderNameValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const folderId = req.params.id;
+    if (!folderId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Folder ID is required',
+      });
+    }
+
+    const { name } = req.body;
+    const userId = req.user!.id;
+
+    if (!await findOwnFolder(folderId, userId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Folder not found',
+      });
+    }
+
+    const existingFolder = await BookmarkFolderService.findByName(userId, name);
+    if (existingFolder && existingFolder.id !== folderId) {
+      return res.status(409).json({
+        success: false,
+        error: 'A folder with this name already exists',
+      });
+    }
+
+    const folder = await BookmarkFolderService.rename(folderId, name);
+
+    return res.json({
+      success: true,
+      message: 'Folder renamed successfully',
+      data: {
+        folder,
+      },
+    });
+  } catch (error) {
+    console.error('Rename bookmark folder error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to rename folder',
+    });
+  }
+});
+
+// Delete a bookmark folder; its bookmarks move out of the folder
+router.delete('/folders/:id', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const folderId = req.params.id;
+    if (!folderId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Folder ID is required',
+      });
+    }
+
+    if (!await findOwnFolder(folderId, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Folder not found',
+      });
+    }
+
+    await BookmarkFolderService.delete(folderId);
+
+    return res.json({
+      success: true,
+      message: 'Folder deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete bookmark folder error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete folder',
+    });
+  }
+});
+
+// Move a bookmark into a folder, or out of its folder with folderId: null
+router.put('/:murmurId', authenticate, [
+  body('folderId')
+    .custom((folderId: unknown) => folderId === null || typeof folderId === 'string')
+    .withMessage('Folder ID must be a string, or null to remove it from its folder'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.murmurId;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const folderId: string | null = req.body.folderId ?? null;
+
+    if (folderId && !await findOwnFolder(folderId, userId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Folder not found',
+      });
+    }
+
+    const bookmark = await BookmarkService.move(userId, murmurId, folderId);
+    if (!bookmark) {
+      return res.status(404).json({
+        success: false,
+        error: 'Bookmark not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Bookmark moved successfully',
+      data: {
+        bookmark,
+      },
+    });
+  } catch (error) {
+    console.error('Move bookmark error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to move bookmark',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,516 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import ConversationService, { MAX_GROUP_PARTICIPANTS } from '../models/Conversation';
+import MessageService, { MAX_MESSAGE_LENGTH } from '../models/Message';
+import NotificationService from '../models/Notification';
+import BlockService from '../models/Block';
+import { authenticate, requireVerifiedEmail, AuthRequest } from '../middleware/auth';
+import { publishToUsers } from '../lib/events';
+import { buildPagination, getPaginationParams, paginationValidation, toPageOptions } from '../lib/pagination';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+// Load a conversation the user is currently part of
+const findOwnConversation = async (conversationId: string, userId: string) => {
+  const participant = await ConversationService.getParticipant(conversationId, userId);
+  if (!participant) return null;
+
+  const conversation = await ConversationService.findById(conversationId);
+  return conversation ? { conversation, participant } : null;
+};
+
+// IDs of everyone else still in the conversation
+const otherParticipantIds = (conversation: { participants?: { userId: string }[] }, userId: string): string[] => {
+  return (conversation.participants ?? []).map(participant => participant.userId).filter(id => id !== userId);
+};
+
+// Get the current user's conversations
+router.get('/', authenticate, [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const { conversations, totalCount } = await ConversationService.getUserConversations(req.user!.id, limit, skip);
+
+    return res.json({
+      success: true,
+      data: {
+        conversations,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+          hasNextPage: page * limit < totalCount,
+          hasPreviousPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get conversations error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch conversations',
+    });
+  }
+});
+
+// Get the number of unread messages across all conversations
+router.get('/unread-count', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const unreadCounts = await ConversationService.getUnreadCounts(req.user!.id);
+
+    return res.json({
+      success: true,
+      data: {
+        unreadCount: [...unreadCounts.values()].reduce((total, count) => total + count, 0),
+        unreadConversations: unreadCounts.size,
+      },
+    });
+  } catch (error) {
+    console.error('Get unread message count error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch unread message count',
+    });
+  }
+});
+
+// Start a conversation. A single participant without a title gets the one-to-one
+// conversation with that user (the existing one, if any); anything else is a group.
+router.post('/', authenticate, requireVerifiedEmail, [
+  body('participantIds')
+    .isArray({ min: 1, max: MAX_GROUP_PARTICIPANTS - 1 })
+    .withMessage(`Participants must be a list of 1 to ${MAX_GROUP_PARTICIPANTS - 1} user IDs`),
+  body('participantIds.*')
+    .isString()
+    .withMessage('Participant IDs must be strings'),
+  body('title')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Title must be between 1 and 100 characters'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.user!.id;
+    const { title } = req.body;
+    const participantIds = [...new Set<string>(req.body.participantIds)].filter(id => id !== userId);
+
+    if (participantIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot start a conversation with yourself',
+      });
+    }
+
+    const allowed = await Promise.all(participantIds.map(id => ConversationService.canMessage(userId, id)));
+    if (allowed.includes(false)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You cannot message one or more of these users',
+      });
+    }
+
+    const conversation = participantIds.length === 1 && !title
+      ? await ConversationService.findOrCreateDirect(userId, participantIds[0]!)
+      : await ConversationService.createGroup(userId, participantIds, title);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Conversation started',
+      data: {
+        conversation,
+      },
+    });
+  } catch (error) {
+    console.error('Create conversation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to start conversation',
+    });
+  }
+});
+
+// Get a conversation with its participants and their read receipts
+router.get('/:id', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const conversationId = req.params.id;
+    if (!conversationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Conversation ID is required',
+      });
+    }
+
+    const membership = await findOwnConversation(conversationId, req.user!.id);
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    const unreadCounts = await ConversationService.getUnreadCounts(req.user!.id, [conversationId]);
+
+    return res.json({
+      success: true,
+      data: {
+        conversation: {
+          ...membership.conversation,
+          unreadCount: unreadCounts.get(conversationId) ?? 0,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch conversation',
+    });
+  }
+});
+
+// Get a conversation's messages, newest first
+router.get('/:id/messages', authenticate, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const conversationId = req.params.id;
+    if (!conversationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Conversation ID is required',
+      });
+    }
+
+    const participant = await ConversationService.getParticipant(conversationId, req.user!.id);
+    if (!participant) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    const pagination = getPaginationParams(req, 30);
+    const { messages, ...pageInfo } = await MessageService.getMessages(
+      conversationId,
+      participant.joinedAt,
+      toPageOptions(pagination)
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        messages,
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get messages error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch messages',
+    });
+  }
+});
+
+// Send a message
+router.post('/:id/messages', authenticate, requireVerifiedEmail, [
+  body('content')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: MAX_MESSAGE_LENGTH })
+    .withMessage(`Message must be between 1 and ${MAX_MESSAGE_LENGTH} characters`),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const conversationId = req.params.id;
+    if (!conversationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Conversation ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const membership = await findOwnConversation(conversationId, userId);
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    const recipientIds = otherParticipantIds(membership.conversation, userId);
+
+    // A block ends a one-to-one conversation
+    const recipientId = recipientIds[0];
+    if (!membership.conversation.isGroup && recipientId && await BlockService.isBlockedEitherWay(userId, recipientId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You cannot message this user',
+      });
+    }
+
+    const message = await MessageService.create(conversationId, userId, req.body.content);
+
+    publishToUsers(recipientIds, 'message', { conversationId, message });
+    await Promise.all(recipientIds.map(id => {
+      return NotificationService.create('message', id, userId, undefined, { conversationId });
+    }));
+
+    return res.status(201).json({
+      success: true,
+      message: 'Message sent',
+      data: {
+        message,
+      },
+    });
+  } catch (error) {
+    console.error('Send message error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to send message',
+    });
+  }
+});
+
+// Delete one of your own messages
+router.delete('/:id/messages/:messageId', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const conversationId = req.params.id;
+    const messageId = req.params.messageId;
+    if (!conversationId || !messageId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Conversation ID and message ID are required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const membership = await findOwnConversation(conversationId, userId);
+    const message = await MessageService.findById(messageId);
+    if (!membership || !message || message.conversationId !== conversationId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Message not found',
+      });
+    }
+
+    if (message.senderId !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'You can only delete your own messages',
+      });
+    }
+
+    await MessageService.softDelete(messageId);
+
+    publishToUsers(otherParticipantIds(membership.conversation, userId), 'message.deleted', { conversationId, messageId });
+
+    return res.json({
+      success: true,
+      message: 'Message deleted',
+    });
+  } catch (error) {
+    console.error('Delete message error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete message',
+    });
+  }
+});
+
+// Mark a conversation as read, up to a message or up to now
+router.post('/:id/read', authenticate, [
+  body('messageId')
+    .optional()
+    .isString()
+    .withMessage('Message ID must be a string'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const conversationId = req.params.id;
+    if (!conversationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Conversation ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const membership = await findOwnConversation(conversationId, userId);
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    let readAt = new Date();
+    if (req.body.messageId) {
+      const message = await MessageService.findById(req.body.messageId);
+      if (!message || message.conversationId !== conversationId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Message not found',
+        });
+      }
+      readAt = message.createdAt;
+    }
+
+    if (await ConversationService.markRead(conversationId, userId, readAt)) {
+      await NotificationService.markConversationAsRead(userId, conversationId);
+      publishToUsers(otherParticipantIds(membership.conversation, userId), 'conversation.read', {
+        conversationId,
+        userId,
+        lastReadAt: readAt,
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Conversation marked as read',
+    });
+  } catch (error) {
+    console.error('Mark conversation read error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to mark conversation as read',
+    });
+  }
+});
+
+// Add people to a group conversation
+router.post('/:id/participants', authenticate, [
+  body('userIds')
+    .isArray({ min: 1, max: MAX_GROUP_PARTICIPANTS - 1 })
+    .withMessage('User IDs must be a non-empty list'),
+  body('userIds.*')
+    .isString()
+    .withMessage('User IDs must be strings'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const conversationId = req.params.id;
+    if (!conversationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Conversation ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const membership = await findOwnConversation(conversationId, userId);
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    if (!membership.conversation.isGroup) {
+      return res.status(400).json({
+        success: false,
+        error: 'People can only be added to group conversations',
+      });
+    }
+
+    const current = new Set((membership.conversation.participants ?? []).map(participant => participant.userId));
+    const userIds = [...new Set<string>(req.body.userIds)].filter(id => !current.has(id));
+
+    if (current.size + userIds.length > MAX_GROUP_PARTICIPANTS) {
+      return res.status(400).json({
+        success: false,
+        error: `Group conversations are limited to ${MAX_GROUP_PARTICIPANTS} participants`,
+      });
+    }
+
+    const allowed = await Promise.all(userIds.map(id => ConversationService.canMessage(userId, id)));
+    if (allowed.includes(false)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You cannot message one or more of these users',
+      });
+    }
+
+    await ConversationService.addParticipants(conversationId, userIds);
+
+    return res.json({
+      success: true,
+      message: 'Participants added',
+      data: {
+        conversation: await ConversationService.findById(conversationId),
+      },
+    });
+  } catch (error) {
+    console.error('Add participants error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to add participants',
+    });
+  }
+});
+
+// Leave a group conversation
+router.post('/:id/leave', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const conversationId = req.params.id;
+    if (!conversationId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Conversation ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const membership = await findOwnConversation(conversationId, userId);
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        error: 'Conversation not found',
+      });
+    }
+
+    if (!membership.conversation.isGroup) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only group conversations can be left',
+      });
+    }
+
+    await ConversationService.leave(conversationId, userId);
+
+    return res.json({
+      success: true,
+      message: 'Left conversation',
+    });
+  } catch (error) {
+    console.error('Leave conversation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to leave conversation',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,395 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import DraftService, { DraftStatus, IDraftSave } from '../models/Draft';
+import HydrationService from '../models/Hydration';
+import MediaService, { MAX_MEDIA_PER_MURMUR } from '../models/Media';
+import PublishService, { PublishError } from '../models/Publish';
+import {
+  MAX_POLL_DURATION_MINUTES,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  MIN_POLL_DURATION_MINUTES,
+  MIN_POLL_OPTIONS,
+} from '../models/Poll';
+import { authenticate, requireVerifiedEmail, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+const DRAFT_STATUSES: DraftStatus[] = ['draft', 'scheduled', 'failed'];
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+// Drafts may be unfinished, so content can be empty until they are published.
+// null clears replyToId, poll and publishAt on update.
+const draftValidation = [
+  body('content')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 280 })
+    .withMessage('Content must be at most 280 characters'),
+  body('replyToId')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Reply to ID must be a string'),
+  body('mediaIds')
+    .optional()
+    .isArray({ max: MAX_MEDIA_PER_MURMUR })
+    .withMessage(`A murmur can have at most ${MAX_MEDIA_PER_MURMUR} attachments`)
+    .custom((ids: unknown[]) => new Set(ids).size === ids.length)
+    .withMessage('Media IDs must all be different'),
+  body('mediaIds.*')
+    .isString()
+    .withMessage('Media IDs must be strings'),
+  body('poll')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Poll must be an object'),
+  body('poll.options')
+    .if(body('poll').isObject())
+    .isArray({ min: MIN_POLL_OPTIONS, max: MAX_POLL_OPTIONS })
+    .withMessage(`A poll must have ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options`)
+    .custom((options: unknown[]) => new Set(options.map(option => String(option).trim().toLowerCase())).size === options.length)
+    .withMessage('Poll options must all be different'),
+  body('poll.options.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: MAX_POLL_OPTION_LENGTH })
+    .withMessage(`Poll options must be between 1 and ${MAX_POLL_OPTION_LENGTH} characters`),
+  body('poll.durationMinutes')
+    .if(body('poll').isObject())
+    .isInt({ min: MIN_POLL_DURATION_MINUTES, max: MAX_POLL_DURATION_MINUTES })
+    .withMessage(`Poll duration must be between ${MIN_POLL_DURATION_MINUTES} and ${MAX_POLL_DURATION_MINUTES} minutes`)
+    .toInt(),
+  body('publishAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('publishAt must be a date')
+    .bail()
+    .custom((publishAt: string) => new Date(publishAt).getTime() > Date.now())
+    .withMessage('publishAt must be in the future')
+    .toDate(),
+];
+
+const toPagination = (page: number, limit: number, totalCount: number) => ({
+  page,
+  limit,
+  totalCount,
+  totalPages: Math.ceil(totalCount / limit),
+  hasNextPage: page * limit < totalCount,
+  hasPreviousPage: page > 1,
+});
+
+// Pick the draft fields present in a request body
+const toDraftSave = (body: any): IDraftSave => ({
+  content: body.content,
+  replyToId: body.replyToId,
+  mediaIds: body.mediaIds,
+  poll: body.poll && {
+    options: body.poll.options,
+    durationMinutes: body.poll.durationMinutes,
+  },
+  publishAt: body.publishAt,
+});
+
+// Check a draft as it will be saved: the murmur it replies to and new media must
+// be usable, and a scheduled draft must be ready to publish. Throws a PublishError.
+const checkDraft = async (
+  userId: string,
+  draft: { content: string; replyToId: string | null; mediaIds: string[]; hasPoll: boolean; publishAt: Date | null },
+  changes: IDraftSave
+) => {
+  if (draft.hasPoll && draft.mediaIds.length > 0) {
+    throw new PublishError('A murmur cannot have both media and a poll', 400);
+  }
+
+  if (changes.mediaIds && changes.mediaIds.length > 0 && !await MediaService.areAttachable(userId, changes.mediaIds)) {
+    throw new PublishError('Media not found or already attached to another murmur', 400);
+  }
+
+  if (changes.replyToId) {
+    await PublishService.checkReplyTarget(userId, changes.replyToId);
+  }
+
+  if (draft.publishAt && draft.content.length === 0 && draft.mediaIds.length === 0) {
+    throw new PublishError('A scheduled draft needs content or media', 400);
+  }
+};
+
+// Check that a draft exists and belongs to the user
+const findOwnDraft = async (draftId: string, userId: string) => {
+  const draft = await DraftService.findById(draftId);
+  return draft && draft.userId === userId ? draft : null;
+};
+
+// Get the current user's drafts, optionally only those with a given status
+router.get('/', authenticate, [
+  query('status')
+    .optional()
+    .isIn(DRAFT_STATUSES)
+    .withMessage(`Status must be one of: ${DRAFT_STATUSES.join(', ')}`),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const status = req.query.status as DraftStatus | undefined;
+
+    const { drafts, totalCount } = await DraftService.getUserDrafts(req.user!.id, status, limit, (page - 1) * limit);
+
+    return res.json({
+      success: true,
+      data: {
+        drafts: drafts.map(draft => DraftService.toView(draft)),
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Get drafts error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch drafts',
+    });
+  }
+});
+
+// Save a draft, optionally scheduled to publish at publishAt
+router.post('/', authenticate, requireVerifiedEmail, draftValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.user!.id;
+    const changes = toDraftSave(req.body);
+
+    await checkDraft(userId, {
+      content: changes.content ?? '',
+      replyToId: changes.replyToId ?? null,
+      mediaIds: changes.mediaIds ?? [],
+      hasPoll: !!changes.poll,
+      publishAt: changes.publishAt ?? null,
+    }, changes);
+
+    const draft = await DraftService.create(userId, changes);
+
+    return res.status(201).json({
+      success: true,
+      message: draft.publishAt ? 'Draft scheduled successfully' : 'Draft saved successfully',
+      data: {
+        draft: DraftService.toView(draft),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PublishError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Create draft error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to save draft',
+    });
+  }
+});
+
+// Get a draft
+router.get('/:id', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const draftId = req.params.id;
+    if (!draftId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Draft ID is required',
+      });
+    }
+
+    const draft = await findOwnDraft(draftId, req.user!.id);
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        draft: DraftService.toView(draft),
+      },
+    });
+  } catch (error) {
+    console.error('Get draft error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch draft',
+    });
+  }
+});
+
+// Update a draft. Setting publishAt schedules it and null unschedules it; a
+// failed draft is retried once it has been updated.
+router.put('/:id', authenticate, draftValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const draftId = req.params.id;
+    if (!draftId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Draft ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const existing = await findOwnDraft(draftId, userId);
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found',
+      });
+    }
+
+    const changes = toDraftSave(req.body);
+    await checkDraft(userId, {
+      content: changes.content ?? existing.content,
+      replyToId: changes.replyToId !== undefined ? changes.replyToId : existing.replyToId,
+      mediaIds: changes.mediaIds ?? existing.mediaIds,
+      hasPoll: changes.poll !== undefined ? !!changes.poll : !!existing.poll,
+      publishAt: changes.publishAt !== undefined ? changes.publishAt : existing.publishAt,
+    }, changes);
+
+    const draft = await DraftService.update(draftId, changes);
+
+    return res.json({
+      success: true,
+      message: 'Draft updated successfully',
+      data: {
+        draft: DraftService.toView(draft),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PublishError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Update draft error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update draft',
+    });
+  }
+});
+
+// Delete a draft
+router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const draftId = req.params.id;
+    if (!draftId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Draft ID is required',
+      });
+    }
+
+    if (!await findOwnDraft(draftId, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found',
+      });
+    }
+
+    await DraftService.delete(draftId);
+
+    return res.json({
+      success: true,
+      message: 'Draft deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete draft error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete draft',
+    });
+  }
+});
+
+// Publish a draft right away
+router.post('/:id/publish', authenticate, requireVerifiedEmail, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const draftId = req.params.id;
+    if (!draftId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Draft ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const draft = await findOwnDraft(draftId, userId);
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found',
+      });
+    }
+
+    // Take the same claim as the publishing job, so the draft isn't published twice
+    if (await DraftService.claim(draft) === null) {
+      return res.status(409).json({
+        success: false,
+        error: 'This draft is already being published',
+      });
+    }
+
+    let murmur;
+    try {
+      murmur = await DraftService.publish(draft);
+    } catch (error) {
+      // The user sees this failure, so it shouldn't use up the job's attempts
+      await DraftService.releaseClaim(draft);
+      throw error;
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'Draft published successfully',
+      data: {
+        murmur: await HydrationService.hydrateOne(murmur, userId),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PublishError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Publish draft error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to publish draft',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,92 @@
+import express from 'express';
+import { param, query, validationResult } from 'express-validator';
+import MurmurService, { buildVisibilityWhere } from '../models/Murmur';
+import HashtagService from '../models/Hashtag';
+import HydrationService from '../models/Hydration';
+import { optionalAuth, AuthRequest } from '../middleware/auth';
+import { MAX_HASHTAG_LENGTH, normalizeHashtag } from '../lib/entities';
+import { buildPagination, getPaginationParams, paginationValidation, toPageOptions } from '../lib/pagination';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+// Get trending hashtags, counting only murmurs the viewer can see
+router.get('/trending', optionalAuth, [
+  query('window')
+    .optional()
+    .isInt({ min: 1, max: 168 })
+    .withMessage('Window must be between 1 and 168 hours'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const windowHours = parseInt(req.query.window as string) || 24;
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    const hashtags = await HashtagService.getTrending(windowHours, limit, await buildVisibilityWhere(req.user?.id));
+
+    return res.json({
+      success: true,
+      data: {
+        hashtags,
+        windowHours,
+      },
+    });
+  } catch (error) {
+    console.error('Get trending hashtags error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch trending hashtags',
+    });
+  }
+});
+
+// Get murmurs tagged with a hashtag
+router.get('/:tag/murmurs', optionalAuth, [
+  param('tag')
+    .isLength({ min: 1, max: MAX_HASHTAG_LENGTH + 1 })
+    .withMessage('Invalid hashtag'),
+  ...paginationValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const tag = normalizeHashtag(req.params.tag!);
+    const pagination = getPaginationParams(req);
+    const viewerId = req.user?.id;
+
+    const { murmurs, ...pageInfo } = await MurmurService.getByHashtag(tag, {
+      ...toPageOptions(pagination),
+      viewerId,
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        tag,
+        murmurs: await HydrationService.hydrate(murmurs, viewerId),
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get hashtag murmurs error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch hashtag murmurs',
+    });
+  }
+});
+
+export default router;
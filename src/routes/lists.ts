@@ -0,0 +1,600 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import ListService, { MAX_LIST_MEMBERS } from '../models/List';
+import MurmurService from '../models/Murmur';
+import UserService from '../models/User';
+import HydrationService from '../models/Hydration';
+import NotificationService from '../models/Notification';
+import BlockService from '../models/Block';
+import { authenticate, optionalAuth, AuthRequest } from '../middleware/auth';
+import { buildPagination, getPaginationParams, paginationValidation, toPageOptions } from '../lib/pagination';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+const pageValidation = [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+];
+
+const listValidation = (optional: boolean) => [
+  (optional ? body('name').optional() : body('name'))
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('List name must be between 1 and 50 characters'),
+  body('description')
+    .optional({ values: 'null' })
+    .isString()
+    .trim()
+    .isLength({ max: 160 })
+    .withMessage('Description must be less than 160 characters'),
+  body('isPrivate')
+    .optional()
+    .isBoolean()
+    .withMessage('isPrivate must be a boolean')
+    .toBoolean(),
+];
+
+const toPagination = (page: number, limit: number, totalCount: number) => ({
+  page,
+  limit,
+  totalCount,
+  totalPages: Math.ceil(totalCount / limit),
+  hasNextPage: page * limit < totalCount,
+  hasPreviousPage: page > 1,
+});
+
+// Find a list the viewer may see: private lists only by their owner, and no
+// lists across a block
+const findVisibleList = async (listId: string, viewerId: string | undefined) => {
+  const list = await ListService.findById(listId);
+  if (!list) return null;
+  if (list.ownerId === viewerId) return list;
+  if (list.isPrivate) return null;
+  if (viewerId && await BlockService.isBlockedEitherWay(viewerId, list.ownerId)) return null;
+  return list;
+};
+
+// Check that a list exists and belongs to the user
+const findOwnList = async (listId: string, userId: string) => {
+  const list = await ListService.findById(listId);
+  return list && list.ownerId === userId ? list : null;
+};
+
+// Get the current user's lists
+router.get('/', authenticate, pageValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { lists, totalCount } = await ListService.getUserLists(req.user!.id, true, limit, (page - 1) * limit);
+
+    return res.json({
+      success: true,
+      data: {
+        lists,
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Get lists error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch lists',
+    });
+  }
+});
+
+// Get lists the current user subscribes to
+router.get('/subscribed', authenticate, pageValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { lists, totalCount } = await ListService.getSubscribedLists(req.user!.id, limit, (page - 1) * limit);
+
+    return res.json({
+      success: true,
+      data: {
+        lists,
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Get subscribed lists error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch subscribed lists',
+    });
+  }
+});
+
+// Get a user's public lists
+router.get('/user/:userId', optionalAuth, pageValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const userId = req.params.userId;
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const user = await UserService.findById(userId);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { lists, totalCount } = await ListService.getUserLists(
+      userId,
+      req.user?.id === userId,
+      limit,
+      (page - 1) * limit
+    );
+
+    return res.json({
+      success: true,
+      data: {
+        lists,
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Get user lists error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch user lists',
+    });
+  }
+});
+
+// Create a list
+router.post('/', authenticate, listValidation(false), handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const { name, description, isPrivate } = req.body;
+
+    const list = await ListService.create(req.user!.id, { name, description, isPrivate });
+
+    return res.status(201).json({
+      success: true,
+      message: 'List created successfully',
+      data: {
+        list,
+      },
+    });
+  } catch (error) {
+    console.error('Create list error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create list',
+    });
+  }
+});
+
+// Get a list
+router.get('/:id', optionalAuth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    const list = await findVisibleList(listId, req.user?.id);
+    if (!list) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    const isSubscribed = req.user ? await ListService.isSubscribed(listId, req.user.id) : false;
+
+    return res.json({
+      success: true,
+      data: {
+        list: {
+          ...list,
+          isSubscribed,
+          isOwnList: req.user?.id === list.ownerId,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get list error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch list',
+    });
+  }
+});
+
+// Update a list
+router.put('/:id', authenticate, listValidation(true), handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    if (!await findOwnList(listId, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    const { name, description, isPrivate } = req.body;
+    const list = await ListService.update(listId, { name, description, isPrivate });
+
+    return res.json({
+      success: true,
+      message: 'List updated successfully',
+      data: {
+        list,
+      },
+    });
+  } catch (error) {
+    console.error('Update list error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update list',
+    });
+  }
+});
+
+// Delete a list
+router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    if (!await findOwnList(listId, req.user!.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    await ListService.delete(listId);
+
+    return res.json({
+      success: true,
+      message: 'List deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete list error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete list',
+    });
+  }
+});
+
+// Get a list's members
+router.get('/:id/members', optionalAuth, pageValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    if (!await findVisibleList(listId, req.user?.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { users, totalCount } = await ListService.getMembers(listId, limit, (page - 1) * limit);
+
+    return res.json({
+      success: true,
+      data: {
+        users,
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Get list members error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch list members',
+    });
+  }
+});
+
+// Add a user to a list
+router.post('/:id/members', authenticate, [
+  body('userId')
+    .isString()
+    .withMessage('User ID is required'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    const currentUserId = req.user!.id;
+    const { userId } = req.body;
+
+    const list = await findOwnList(listId, currentUserId);
+    if (!list) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    const user = await UserService.findById(userId);
+    if (!user || !user.isActive) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (await BlockService.isBlockedEitherWay(currentUserId, userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You cannot add this user to a list',
+      });
+    }
+
+    if (await ListService.isMember(listId, userId)) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already on this list',
+      });
+    }
+
+    if (list.membersCount >= MAX_LIST_MEMBERS) {
+      return res.status(400).json({
+        success: false,
+        error: `Lists are limited to ${MAX_LIST_MEMBERS} members`,
+      });
+    }
+
+    await ListService.addMember(listId, userId);
+
+    // Private lists stay secret, even from their members
+    if (!list.isPrivate && user.notifyListAdds) {
+      await NotificationService.create('list_add', userId, currentUserId, undefined, { listId });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'User added to list',
+      data: {
+        membersCount: list.membersCount + 1,
+      },
+    });
+  } catch (error) {
+    console.error('Add list member error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to add user to list',
+    });
+  }
+});
+
+// Remove a user from a list
+router.delete('/:id/members/:userId', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    const userId = req.params.userId;
+    if (!listId || !userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID and user ID are required',
+      });
+    }
+
+    const list = await findOwnList(listId, req.user!.id);
+    if (!list) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    if (!await ListService.removeMember(listId, userId)) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is not on this list',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'User removed from list',
+      data: {
+        membersCount: Math.max(0, list.membersCount - 1),
+      },
+    });
+  } catch (error) {
+    console.error('Remove list member error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove user from list',
+    });
+  }
+});
+
+// Subscribe to someone else's public list
+router.post('/:id/subscribe', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const list = await findVisibleList(listId, userId);
+    if (!list) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    if (list.ownerId === userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot subscribe to your own list',
+      });
+    }
+
+    if (await ListService.isSubscribed(listId, userId)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Already subscribed to this list',
+      });
+    }
+
+    await ListService.subscribe(listId, userId);
+
+    return res.json({
+      success: true,
+      message: 'Subscribed to list',
+      data: {
+        isSubscribed: true,
+        subscribersCount: list.subscribersCount + 1,
+      },
+    });
+  } catch (error) {
+    console.error('Subscribe to list error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to subscribe to list',
+    });
+  }
+});
+
+// Unsubscribe from a list
+router.delete('/:id/subscribe', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    if (!await ListService.unsubscribe(listId, req.user!.id)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Not subscribed to this list',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Unsubscribed from list',
+      data: {
+        isSubscribed: false,
+      },
+    });
+  } catch (error) {
+    console.error('Unsubscribe from list error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to unsubscribe from list',
+    });
+  }
+});
+
+// Get a list's timeline: murmurs by its members, like the home timeline
+router.get('/:id/timeline', optionalAuth, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const listId = req.params.id;
+    if (!listId) {
+      return res.status(400).json({
+        success: false,
+        error: 'List ID is required',
+      });
+    }
+
+    const viewerId = req.user?.id;
+    if (!await findVisibleList(listId, viewerId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'List not found',
+      });
+    }
+
+    const pagination = getPaginationParams(req);
+    const { murmurs, ...pageInfo } = await MurmurService.getListTimeline(listId, {
+      ...toPageOptions(pagination),
+      viewerId,
+    });
+
+    // Fill in the viewer's likes, remurmurs and follows for the whole page
+    const formattedMurmurs = await HydrationService.hydrate(murmurs, viewerId);
+
+    return res.json({
+      success: true,
+      data: {
+        murmurs: formattedMurmurs,
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get list timeline error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch list timeline',
+    });
+  }
+});
+
+export default router;
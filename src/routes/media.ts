@@ -0,0 +1,173 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import MediaService from '../models/Media';
+import { authenticate, requireVerifiedEmail, AuthRequest } from '../middleware/auth';
+import {
+  IMAGE_MIME_TYPES,
+  MAX_VIDEO_BYTES,
+  VIDEO_MIME_TYPES,
+  isImageMimeType,
+  maxBytesFor,
+  singleFile,
+} from '../middleware/upload';
+import { probeImage } from '../lib/media';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+const altTextValidation = body('altText')
+  .optional({ values: 'null' })
+  .isString()
+  .isLength({ max: 1000 })
+  .withMessage('Alt text must be at most 1000 characters')
+  .trim();
+
+// Upload an image or video to attach to a murmur
+router.post(
+  '/',
+  authenticate,
+  requireVerifiedEmail,
+  singleFile('file', [...IMAGE_MIME_TYPES, ...VIDEO_MIME_TYPES], MAX_VIDEO_BYTES),
+  [altTextValidation],
+  handleValidationErrors,
+  async (req: AuthRequest, res: express.Response) => {
+    try {
+      const file = req.file!;
+
+      // Images have a lower size limit than videos
+      if (file.size > maxBytesFor(file.mimetype)) {
+        return res.status(413).json({
+          success: false,
+          error: 'File is too large',
+        });
+      }
+
+      let dimensions: { width: number | null; height: number | null } = { width: null, height: null };
+      if (isImageMimeType(file.mimetype)) {
+        const probed = await probeImage(file.buffer);
+        if (!probed) {
+          return res.status(415).json({
+            success: false,
+            error: 'File is not a valid image',
+          });
+        }
+        dimensions = probed;
+      }
+
+      const media = await MediaService.create(req.user!.id, {
+        data: file.buffer,
+        mimeType: file.mimetype,
+        ...dimensions,
+        altText: req.body.altText || null,
+      });
+
+      return res.status(201).json({
+        success: true,
+        message: 'Media uploaded successfully',
+        data: {
+          media,
+        },
+      });
+    } catch (error) {
+      console.error('Upload media error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to upload media',
+      });
+    }
+  }
+);
+
+// Update alt text
+router.put('/:id', authenticate, [
+  altTextValidation,
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const mediaId = req.params.id;
+    if (!mediaId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Media ID is required',
+      });
+    }
+
+    const media = await MediaService.findById(mediaId);
+    if (!media || media.userId !== req.user!.id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Media not found or you do not have permission to edit it',
+      });
+    }
+
+    const updatedMedia = await MediaService.updateAltText(mediaId, req.body.altText || null);
+
+    return res.json({
+      success: true,
+      message: 'Media updated successfully',
+      data: {
+        media: updatedMedia,
+      },
+    });
+  } catch (error) {
+    console.error('Update media error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update media',
+    });
+  }
+});
+
+// Delete an upload that has not been attached to a murmur
+router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const mediaId = req.params.id;
+    if (!mediaId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Media ID is required',
+      });
+    }
+
+    const media = await MediaService.findById(mediaId);
+    if (!media || media.userId !== req.user!.id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Media not found or you do not have permission to delete it',
+      });
+    }
+
+    if (media.murmurId) {
+      return res.status(409).json({
+        success: false,
+        error: 'Media is attached to a murmur; delete the murmur instead',
+      });
+    }
+
+    await MediaService.delete(mediaId);
+
+    return res.json({
+      success: true,
+      message: 'Media deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete media error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete media',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,240 @@
+import express from 'express';
+import { body, query, validationResult } from 'express-validator';
+import ModerationService, {
+  MODERATION_ACTIONS,
+  MODERATION_CASE_STATUSES,
+  ModerationAction,
+  ModerationCaseStatus,
+  ReportTargetType,
+} from '../models/Moderation';
+import MurmurService from '../models/Murmur';
+import UserService from '../models/User';
+import SessionService from '../models/Session';
+import NotificationService from '../models/Notification';
+import PublishService from '../models/Publish';
+import AuditLogService from '../models/AuditLog';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+
+const router = express.Router();
+
+// Validation middleware
+const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array(),
+    });
+  }
+  return next();
+};
+
+const toPagination = (page: number, limit: number, totalCount: number) => ({
+  page,
+  limit,
+  totalCount,
+  totalPages: Math.ceil(totalCount / limit),
+  hasNextPage: page * limit < totalCount,
+  hasPreviousPage: page > 1,
+});
+
+// Carry out a moderator's action on the case's target
+const applyAction = async (action: ModerationAction, moderationCase: { murmurId: string | null; targetUserId: string }) => {
+  if (action === 'hide_murmur' && moderationCase.murmurId) {
+    const murmur = await MurmurService.findById(moderationCase.murmurId);
+    if (murmur) {
+      await PublishService.unpublish(murmur);
+    }
+  }
+
+  if (action === 'deactivate_user') {
+    await UserService.setActive(moderationCase.targetUserId, false);
+    await SessionService.revokeAllForUser(moderationCase.targetUserId);
+  }
+};
+
+// Get the moderation queue
+router.get('/cases', authenticate, requireRole('moderator', 'admin'), [
+  query('status')
+    .optional()
+    .isIn(MODERATION_CASE_STATUSES)
+    .withMessage(`Status must be one of: ${MODERATION_CASE_STATUSES.join(', ')}`),
+  query('targetType')
+    .optional()
+    .isIn(['murmur', 'user'])
+    .withMessage('Target type must be murmur or user'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const status = (req.query.status as ModerationCaseStatus | undefined) ?? 'open';
+    const targetType = req.query.targetType as ReportTargetType | undefined;
+
+    const { cases, totalCount } = await ModerationService.getCases(status, targetType, limit, (page - 1) * limit);
+
+    return res.json({
+      success: true,
+      data: {
+        cases,
+        pagination: toPagination(page, limit, totalCount),
+      },
+    });
+  } catch (error) {
+    console.error('Get moderation cases error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch moderation cases',
+    });
+  }
+});
+
+// Get a case with the reports grouped into it
+router.get('/cases/:id', authenticate, requireRole('moderator', 'admin'), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const caseId = req.params.id;
+    if (!caseId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Case ID is required',
+      });
+    }
+
+    const moderationCase = await ModerationService.findCaseById(caseId);
+    if (!moderationCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Case not found',
+      });
+    }
+
+    const reports = await ModerationService.getCaseReports(caseId);
+
+    return res.json({
+      success: true,
+      data: {
+        case: moderationCase,
+        reports,
+      },
+    });
+  } catch (error) {
+    console.error('Get moderation case error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch moderation case',
+    });
+  }
+});
+
+// Resolve a case: hide the murmur, deactivate the user or dismiss the reports.
+// Everyone who reported it is notified of the outcome.
+router.post('/cases/:id/resolve', authenticate, requireRole('moderator', 'admin'), [
+  body('action')
+    .isIn(MODERATION_ACTIONS)
+    .withMessage(`Action must be one of: ${MODERATION_ACTIONS.join(', ')}`),
+  body('note')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note must be at most 500 characters'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const caseId = req.params.id;
+    if (!caseId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Case ID is required',
+      });
+    }
+
+    const moderatorId = req.user!.id;
+    const action: ModerationAction = req.body.action;
+
+    const moderationCase = await ModerationService.findCaseById(caseId);
+    if (!moderationCase) {
+      return res.status(404).json({
+        success: false,
+        error: 'Case not found',
+      });
+    }
+
+    if (action === 'hide_murmur' && moderationCase.targetType !== 'murmur') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only reported murmurs can be hidden',
+      });
+    }
+
+    if (action === 'deactivate_user' && moderationCase.targetUserId === moderatorId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot deactivate yourself',
+      });
+    }
+
+    // Staff accounts can only be suspended by an admin through the admin API, so
+    // a report can't be used to lock a moderator or admin out
+    if (action === 'deactivate_user') {
+      const targetUser = await UserService.findById(moderationCase.targetUserId);
+      if (targetUser && targetUser.role !== 'user') {
+        return res.status(403).json({
+          success: false,
+          error: 'Moderators and admins cannot be deactivated from the moderation queue',
+        });
+      }
+    }
+
+    const resolvedCase = await ModerationService.resolveCase(caseId, moderatorId, action, req.body.note);
+    if (!resolvedCase) {
+      return res.status(409).json({
+        success: false,
+        error: 'This case has already been resolved',
+      });
+    }
+
+    await applyAction(action, resolvedCase);
+    await AuditLogService.record({
+      actorId: moderatorId,
+      action: 'moderation_case.resolve',
+      targetType: 'moderation_case',
+      targetId: caseId,
+      details: {
+        action,
+        targetType: resolvedCase.targetType,
+        targetUserId: resolvedCase.targetUserId,
+        ...(resolvedCase.murmurId && { murmurId: resolvedCase.murmurId }),
+      },
+      ipAddress: req.ip ?? null,
+    });
+
+    const reporterIds = await ModerationService.getReporterIds(caseId);
+    await Promise.all(reporterIds.map(reporterId =>
+      NotificationService.create('report_resolved', reporterId, reporterId, undefined, { moderationCaseId: caseId })
+    ));
+
+    return res.json({
+      success: true,
+      message: action === 'dismiss' ? 'Reports dismissed' : 'Case resolved successfully',
+      data: {
+        case: resolvedCase,
+      },
+    });
+  } catch (error) {
+    console.error('Resolve moderation case error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to resolve moderation case',
+    });
+  }
+});
+
+export default router;
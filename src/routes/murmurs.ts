@@ -1,14 +1,42 @@
 import express from 'express';
 import { body, query, validationResult } from 'express-validator';
+import { Prisma } from '@prisma/client';
 import MurmurService from '../models/Murmur';
 import LikeService from '../models/Like';
 import UserService from '../models/User';
 import FollowService from '../models/Follow';
 import NotificationService from '../models/Notification';
-import { authenticate, optionalAuth, AuthRequest } from '../middleware/auth';
+import HydrationService from '../models/Hydration';
+import ThreadService from '../models/Thread';
+import ForYouService from '../models/ForYou';
+import BlockService from '../models/Block';
+import { MAX_MEDIA_PER_MURMUR } from '../models/Media';
+import MentionService from '../models/Mention';
+import PollService, {
+  MAX_POLL_DURATION_MINUTES,
+  MAX_POLL_OPTIONS,
+  MAX_POLL_OPTION_LENGTH,
+  MIN_POLL_DURATION_MINUTES,
+  MIN_POLL_OPTIONS,
+} from '../models/Poll';
+import PublishService, { PublishError } from '../models/Publish';
+import ModerationService, { REPORT_REASONS } from '../models/Moderation';
+import BookmarkService from '../models/Bookmark';
+import BookmarkFolderService from '../models/BookmarkFolder';
+import { authenticate, optionalAuth, requireVerifiedEmail, requireRole, AuthRequest } from '../middleware/auth';
+import { buildPagination, getPaginationParams, paginationValidation, toPageOptions } from '../lib/pagination';
+import { TRENDING_MAX_AGE_HOURS } from '../lib/ranking';
 
 const router = express.Router();
 
+// How long after posting a murmur can still be edited. A malformed setting falls
+// back to 30 minutes; NaN would otherwise keep the window open forever.
+const configuredEditWindow = parseInt(process.env.MURMUR_EDIT_WINDOW_MINUTES || '30');
+const EDIT_WINDOW_MINUTES = configuredEditWindow > 0 ? configuredEditWindow : 30;
+
+// Most murmurs one author can have in the trending list
+const TRENDING_PER_AUTHOR = parseInt(process.env.TRENDING_PER_AUTHOR || '2');
+
 // Validation middleware
 const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const errors = validationResult(req);
@@ -23,7 +51,38 @@ const handleValidationErrors = (req: express.Request, res: express.Response, nex
 };
 
 // Get timeline (murmurs from followed users)
-router.get('/timeline', authenticate, [
+router.get('/timeline', authenticate, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const pagination = getPaginationParams(req);
+    const userId = req.user!.id;
+
+    // Get murmurs from followed users (excluding current user's own murmurs)
+    const { murmurs, ...pageInfo } = await MurmurService.getTimeline(userId, toPageOptions(pagination));
+
+    // Fill in the viewer's likes, remurmurs and follows for the whole page
+    const formattedMurmurs = await HydrationService.hydrate(murmurs, userId);
+
+    return res.json({
+      success: true,
+      data: {
+        murmurs: formattedMurmurs,
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get timeline error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch timeline',
+    });
+  }
+});
+
+// Get the ranked "For You" feed. ?debug=true adds how each score was computed,
+// for admins tuning the weights.
+router.get('/for-you', authenticate, (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+  return req.query.debug === 'true' ? requireRole('admin')(req, res, next) : next();
+}, [
   query('page')
     .optional()
     .isInt({ min: 1 })
@@ -32,62 +91,49 @@ router.get('/timeline', authenticate, [
     .optional()
     .isInt({ min: 1, max: 50 })
     .withMessage('Limit must be between 1 and 50'),
+  query('debug')
+    .optional()
+    .isBoolean()
+    .withMessage('debug must be a boolean'),
 ], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const offset = (page - 1) * limit;
-    const userId = req.user.id;
-
-    // Get users that the current user follows
-    const { following } = await FollowService.getFollowing(userId, 1000, 0); // Get all following
-    const followingIds = following.map((user: any) => user.id);
+    // Rankings shift between requests, so this feed pages by offset only
+    const pagination = { ...getPaginationParams(req), cursor: undefined };
+    const userId = req.user!.id;
+    const debug = req.query.debug === 'true';
 
-    // Get murmurs from followed users (excluding current user's own murmurs)
-    const { murmurs, totalCount } = await MurmurService.getTimeline(userId, limit, offset);
-
-    // Get like counts and user's likes for each murmur
-    const murmurIds = murmurs.map((m: any) => m.id);
-    const likeCounts = await Promise.all(
-      murmurIds.map((id: string) => LikeService.getLikeCount(id))
-    );
-
-    const userLikes = await Promise.all(
-      murmurIds.map((id: string) => LikeService.isUserLiked(userId, id))
-    );
+    const { murmurs, hasMore, totalCount } = await ForYouService.getFeed(userId, {
+      limit: pagination.limit,
+      offset: pagination.offset,
+    });
 
-    // Format response
-    const formattedMurmurs = murmurs.map((murmur: any, index: number) => ({
-      ...murmur,
-      likesCount: likeCounts[index],
-      isLikedByUser: userLikes[index],
-    }));
+    const hydrated = await HydrationService.hydrate(murmurs.map(ranked => ranked.murmur), userId);
 
     return res.json({
       success: true,
       data: {
-        murmurs: formattedMurmurs,
-        pagination: {
-          page,
-          limit,
-          totalCount,
-          totalPages: Math.ceil(totalCount / limit),
-          hasNextPage: page * limit < totalCount,
-          hasPreviousPage: page > 1,
-        },
+        murmurs: hydrated.map((murmur, index) => ({
+          ...murmur,
+          ...(debug && { ranking: murmurs[index]!.explanation }),
+        })),
+        pagination: buildPagination(pagination, { hasMore, nextCursor: null, totalCount }),
       },
     });
   } catch (error) {
-    console.error('Get timeline error:', error);
+    console.error('Get for you feed error:', error);
     return res.status(500).json({
       success: false,
-      error: 'Failed to fetch timeline',
+      error: 'Failed to fetch feed',
     });
   }
 });
 
-// Get all murmurs (public feed)
-router.get('/', optionalAuth, [
+// Get trending murmurs, ranked by a time-decayed engagement score
+router.get('/trending', optionalAuth, [
+  query('window')
+    .optional()
+    .isInt({ min: 1, max: TRENDING_MAX_AGE_HOURS })
+    .withMessage(`Window must be between 1 and ${TRENDING_MAX_AGE_HOURS} hours`),
   query('page')
     .optional()
     .isInt({ min: 1 })
@@ -98,47 +144,54 @@ router.get('/', optionalAuth, [
     .withMessage('Limit must be between 1 and 50'),
 ], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const offset = (page - 1) * limit;
-
-    // Exclude current user's murmurs if authenticated
-    const excludeUserId = req.user?.id;
-    const { murmurs, totalCount } = await MurmurService.getPublicMurmurs(limit, offset, excludeUserId);
-
-    // Get like counts
-    const murmurIds = murmurs.map((m: any) => m.id);
-    const likeCounts = await Promise.all(
-      murmurIds.map((id: string) => LikeService.getLikeCount(id))
-    );
+    const pagination = { ...getPaginationParams(req), cursor: undefined };
+    const windowHours = parseInt(req.query.window as string) || 24;
+    const viewerId = req.user?.id;
 
-    // Check if current user liked each murmur (if authenticated)
-    let userLikes: boolean[] = [];
-    if (req.user) {
-      userLikes = await Promise.all(
-        murmurIds.map((id: string) => LikeService.isUserLiked(req.user.id, id))
-      );
-    }
+    const { murmurs, ...pageInfo } = await MurmurService.getTrending({
+      limit: pagination.limit,
+      offset: pagination.offset,
+      windowHours,
+      perAuthor: TRENDING_PER_AUTHOR,
+      viewerId,
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        murmurs: await HydrationService.hydrate(murmurs, viewerId),
+        windowHours,
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get trending murmurs error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch trending murmurs',
+    });
+  }
+});
+
+// Get all murmurs (public feed)
+router.get('/', optionalAuth, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const pagination = getPaginationParams(req);
+
+    // Excludes the current user's murmurs if authenticated
+    const { murmurs, ...pageInfo } = await MurmurService.getPublicMurmurs({
+      ...toPageOptions(pagination),
+      viewerId: req.user?.id,
+    });
 
-    // Format response
-    const formattedMurmurs = murmurs.map((murmur: any, index: number) => ({
-      ...murmur,
-      likesCount: likeCounts[index],
-      isLikedByUser: req.user ? userLikes[index] : false,
-    }));
+    // Fill in the viewer's likes, remurmurs and follows for the whole page
+    const formattedMurmurs = await HydrationService.hydrate(murmurs, req.user?.id);
 
     return res.json({
       success: true,
       data: {
         murmurs: formattedMurmurs,
-        pagination: {
-          page,
-          limit,
-          totalCount,
-          totalPages: Math.ceil(totalCount / limit),
-          hasNextPage: page * limit < totalCount,
-          hasPreviousPage: page > 1,
-        },
+        pagination: buildPagination(pagination, pageInfo),
       },
     });
   } catch (error) {
@@ -150,8 +203,37 @@ router.get('/', optionalAuth, [
   }
 });
 
-// Get user's liked murmurs - This must come before user/:userId route
-router.get('/user/:userId/likes', authenticate, [
+// Get murmurs that mention the current user - This must come before /:id route
+router.get('/mentions', authenticate, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const pagination = getPaginationParams(req);
+    const userId = req.user!.id;
+
+    const { murmurs, ...pageInfo } = await MurmurService.getMentions(userId, toPageOptions(pagination));
+
+    return res.json({
+      success: true,
+      data: {
+        murmurs: await HydrationService.hydrate(murmurs, userId),
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get mentions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch mentions',
+    });
+  }
+});
+
+// Search murmurs - This must come before /:id route. Supports "phrases" and -exclusions.
+router.get('/search', optionalAuth, [
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Search query must be between 1 and 200 characters'),
   query('page')
     .optional()
     .isInt({ min: 1 })
@@ -160,7 +242,45 @@ router.get('/user/:userId/likes', authenticate, [
     .optional()
     .isInt({ min: 1, max: 50 })
     .withMessage('Limit must be between 1 and 50'),
+  query('includeTotal')
+    .optional()
+    .isBoolean()
+    .withMessage('includeTotal must be a boolean'),
 ], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    // Results are ranked by relevance, so only page-based pagination applies
+    const pagination = { ...getPaginationParams(req, 20), cursor: undefined };
+    const viewerId = req.user?.id;
+
+    const { murmurs, ...pageInfo } = await MurmurService.search(req.query.q as string, {
+      ...toPageOptions(pagination),
+      viewerId,
+    });
+
+    const hydrated = await HydrationService.hydrate(murmurs, viewerId);
+
+    return res.json({
+      success: true,
+      data: {
+        murmurs: hydrated.map((murmur, index) => ({
+          ...murmur,
+          searchRank: murmurs[index]!.searchRank,
+          snippet: murmurs[index]!.snippet,
+        })),
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Search murmurs error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to search murmurs',
+    });
+  }
+});
+
+// Get user's liked murmurs - This must come before user/:userId route
+router.get('/user/:userId/likes', authenticate, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
     const userId = req.params.userId;
     if (!userId) {
@@ -170,9 +290,7 @@ router.get('/user/:userId/likes', authenticate, [
       });
     }
     
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const offset = (page - 1) * limit;
+    const pagination = getPaginationParams(req);
 
     // Check if user exists
     const user = await UserService.findById(userId);
@@ -183,42 +301,32 @@ router.get('/user/:userId/likes', authenticate, [
       });
     }
 
+    // A private account's likes are only shown to its followers
+    if (user.isPrivate && userId !== req.user!.id
+      && !await FollowService.findByFollowerAndFollowing(req.user!.id, userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'This account is private',
+      });
+    }
+
     // Get user's likes
-    const { likes, totalCount } = await LikeService.getLikesByUser(userId, limit, offset);
+    const { likes, ...pageInfo } = await LikeService.getLikesByUser(userId, {
+      ...toPageOptions(pagination),
+      viewerId: req.user!.id,
+    });
 
     // Extract murmurs from likes
     const murmurs = likes.map((like: any) => like.murmur).filter((murmur: any) => murmur && !murmur.isDeleted);
 
-    // Get like counts and check if current user liked each murmur
-    const murmurIds = murmurs.map((m: any) => m.id);
-    const likeCounts = await Promise.all(
-      murmurIds.map((id: string) => LikeService.getLikeCount(id))
-    );
-
-    const currentUserId = req.user.id;
-    const userLikes = await Promise.all(
-      murmurIds.map((id: string) => LikeService.isUserLiked(currentUserId, id))
-    );
-
-    // Format response
-    const formattedMurmurs = murmurs.map((murmur: any, index: number) => ({
-      ...murmur,
-      likesCount: likeCounts[index],
-      isLikedByUser: userLikes[index],
-    }));
+    // Fill in the viewer's likes, remurmurs and follows for the whole page
+    const formattedMurmurs = await HydrationService.hydrate(murmurs, req.user!.id);
 
     return res.json({
       success: true,
       data: {
         murmurs: formattedMurmurs,
-        pagination: {
-          page,
-          limit,
-          totalCount: murmurs.length,
-          totalPages: Math.ceil(totalCount / limit),
-          hasNextPage: page * limit < totalCount,
-          hasPreviousPage: page > 1,
-        },
+        pagination: buildPagination(pagination, pageInfo),
       },
     });
   } catch (error) {
@@ -231,16 +339,7 @@ router.get('/user/:userId/likes', authenticate, [
 });
 
 // Get user's murmurs - This must come before /:id route
-router.get('/user/:userId', optionalAuth, [
-  query('page')
-    .optional()
-    .isInt({ min: 1 })
-    .withMessage('Page must be a positive integer'),
-  query('limit')
-    .optional()
-    .isInt({ min: 1, max: 50 })
-    .withMessage('Limit must be between 1 and 50'),
-], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+router.get('/user/:userId', optionalAuth, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
     const userId = req.params.userId;
     if (!userId) {
@@ -250,9 +349,7 @@ router.get('/user/:userId', optionalAuth, [
       });
     }
     
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const offset = (page - 1) * limit;
+    const pagination = getPaginationParams(req);
 
     // Check if user exists
     const user = await UserService.findById(userId);
@@ -263,28 +360,21 @@ router.get('/user/:userId', optionalAuth, [
       });
     }
 
-    const { murmurs, totalCount } = await MurmurService.getUserMurmurs(userId, limit, offset);
-
-    // Get like counts
-    const murmurIds = murmurs.map((m: any) => m.id);
-    const likeCounts = await Promise.all(
-      murmurIds.map((id: string) => LikeService.getLikeCount(id))
-    );
-
-    // Check if current user liked each murmur (if authenticated)
-    let userLikes: boolean[] = [];
-    if (req.user) {
-      userLikes = await Promise.all(
-        murmurIds.map((id: string) => LikeService.isUserLiked(req.user.id, id))
-      );
+    // Blocked users can't see each other's murmurs
+    if (req.user && await BlockService.isBlockedEitherWay(req.user.id, userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You cannot view this user\'s murmurs',
+      });
     }
 
-    // Format response
-    const formattedMurmurs = murmurs.map((murmur: any, index: number) => ({
-      ...murmur,
-      likesCount: likeCounts[index],
-      isLikedByUser: req.user ? userLikes[index] : false,
-    }));
+    const { murmurs, ...pageInfo } = await MurmurService.getUserMurmurs(userId, {
+      ...toPageOptions(pagination),
+      viewerId: req.user?.id,
+    });
+
+    // Fill in the viewer's likes, remurmurs and follows for the whole page
+    const formattedMurmurs = await HydrationService.hydrate(murmurs, req.user?.id);
 
     return res.json({
       success: true,
@@ -294,20 +384,15 @@ router.get('/user/:userId', optionalAuth, [
           username: user.username,
           displayName: user.displayName,
           avatar: user.avatar,
+          banner: user.banner,
           bio: user.bio,
           followersCount: user.followersCount,
           followingCount: user.followingCount,
           murmursCount: user.murmursCount,
+          isPrivate: user.isPrivate,
         },
         murmurs: formattedMurmurs,
-        pagination: {
-          page,
-          limit,
-          totalCount,
-          totalPages: Math.ceil(totalCount / limit),
-          hasNextPage: page * limit < totalCount,
-          hasPreviousPage: page > 1,
-        },
+        pagination: buildPagination(pagination, pageInfo),
       },
     });
   } catch (error) {
@@ -332,30 +417,18 @@ router.get('/:id', optionalAuth, async (req: AuthRequest, res: express.Response)
 
     const murmur = await MurmurService.findById(murmurId);
 
-    if (!murmur) {
+    // Blocks and private accounts hide murmurs as if they didn't exist
+    if (!murmur || !await MurmurService.isVisibleTo(murmur.id, req.user?.id)) {
       return res.status(404).json({
         success: false,
         error: 'Murmur not found',
       });
     }
 
-    // Get like count
-    const likesCount = await LikeService.getLikeCount(murmurId);
-
-    // Check if current user liked this murmur
-    let isLikedByUser = false;
-    if (req.user) {
-      isLikedByUser = await LikeService.isUserLiked(req.user.id, murmurId);
-    }
-
     return res.json({
       success: true,
       data: {
-        murmur: {
-          ...murmur,
-          likesCount,
-          isLikedByUser,
-        },
+        murmur: await HydrationService.hydrateOne(murmur, req.user?.id),
       },
     });
   } catch (error) {
@@ -368,63 +441,185 @@ router.get('/:id', optionalAuth, async (req: AuthRequest, res: express.Response)
 });
 
 // Create murmur
-router.post('/', authenticate, [
+router.post('/', authenticate, requireVerifiedEmail, [
   body('content')
-    .isLength({ min: 1, max: 280 })
-    .withMessage('Content must be between 1 and 280 characters')
-    .trim(),
+    .default('')
+    .isString()
+    .trim()
+    .isLength({ max: 280 })
+    .withMessage('Content must be at most 280 characters')
+    .custom((content: string, { req }) => content.length > 0 || (req.body.mediaIds?.length ?? 0) > 0)
+    .withMessage('Content must be between 1 and 280 characters'),
   body('replyToId')
     .optional()
     .isString()
     .withMessage('Reply to ID must be a string'),
+  body('mediaIds')
+    .optional()
+    .isArray({ max: MAX_MEDIA_PER_MURMUR })
+    .withMessage(`A murmur can have at most ${MAX_MEDIA_PER_MURMUR} attachments`)
+    .custom((ids: unknown[]) => new Set(ids).size === ids.length)
+    .withMessage('Media IDs must all be different'),
+  body('mediaIds.*')
+    .isString()
+    .withMessage('Media IDs must be strings'),
+  body('poll')
+    .optional()
+    .isObject()
+    .withMessage('Poll must be an object')
+    .custom((poll: unknown, { req }) => (req.body.mediaIds?.length ?? 0) === 0)
+    .withMessage('A murmur cannot have both media and a poll'),
+  body('poll.options')
+    .if(body('poll').exists())
+    .isArray({ min: MIN_POLL_OPTIONS, max: MAX_POLL_OPTIONS })
+    .withMessage(`A poll must have ${MIN_POLL_OPTIONS} to ${MAX_POLL_OPTIONS} options`)
+    .custom((options: unknown[]) => new Set(options.map(option => String(option).trim().toLowerCase())).size === options.length)
+    .withMessage('Poll options must all be different'),
+  body('poll.options.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: MAX_POLL_OPTION_LENGTH })
+    .withMessage(`Poll options must be between 1 and ${MAX_POLL_OPTION_LENGTH} characters`),
+  body('poll.durationMinutes')
+    .if(body('poll').exists())
+    .isInt({ min: MIN_POLL_DURATION_MINUTES, max: MAX_POLL_DURATION_MINUTES })
+    .withMessage(`Poll duration must be between ${MIN_POLL_DURATION_MINUTES} and ${MAX_POLL_DURATION_MINUTES} minutes`)
+    .toInt(),
 ], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
-    const { content, replyToId } = req.body;
-    const userId = req.user.id;
+    const { content, replyToId, mediaIds, poll } = req.body;
+    const userId = req.user!.id;
 
-    // If it's a reply, check if the parent murmur exists
-    if (replyToId) {
-      const parentMurmur = await MurmurService.findById(replyToId);
-      if (!parentMurmur) {
-        return res.status(404).json({
-          success: false,
-          error: 'Parent murmur not found',
-        });
-      }
+    const murmur = await PublishService.publish(userId, {
+      content,
+      replyToId,
+      mediaIds,
+      poll: poll && {
+        options: poll.options,
+        durationMinutes: poll.durationMinutes,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Murmur created successfully',
+      data: {
+        murmur: await HydrationService.hydrateOne(murmur, userId),
+      },
+    });
+  } catch (error) {
+    if (error instanceof PublishError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message,
+      });
     }
 
-    const murmur = await MurmurService.create(userId, content, replyToId);
+    console.error('Create murmur error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create murmur',
+    });
+  }
+});
 
-    // Update user's murmur count only if it's not a reply
-    if (!replyToId) {
-      await UserService.updateCounts(userId, { murmursCount: 1 });
+// Edit murmur
+router.put('/:id', authenticate, requireVerifiedEmail, [
+  body('content')
+    .isLength({ min: 1, max: 280 })
+    .withMessage('Content must be between 1 and 280 characters')
+    .trim(),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
     }
 
-    // If it's a reply, create notification for the parent murmur author and increment reply count
-    if (replyToId) {
-      const parentMurmur = await MurmurService.findById(replyToId);
-      if (parentMurmur) {
-        await NotificationService.create('reply', parentMurmur.userId, userId, replyToId);
-        await MurmurService.incrementRepliesCount(replyToId);
-      }
+    const { content } = req.body;
+    const userId = req.user!.id;
+
+    const murmur = await MurmurService.findById(murmurId);
+    if (!murmur || murmur.userId !== userId || murmur.remurmurOfId) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found or you do not have permission to edit it',
+      });
     }
 
-    return res.status(201).json({
+    if (Date.now() - murmur.createdAt.getTime() > EDIT_WINDOW_MINUTES * 60 * 1000) {
+      return res.status(403).json({
+        success: false,
+        error: `Murmurs can only be edited within ${EDIT_WINDOW_MINUTES} minutes of posting`,
+      });
+    }
+
+    // Nothing to record if the text did not change
+    const updatedMurmur = content === murmur.content
+      ? murmur
+      : await MurmurService.update(murmurId, content);
+
+    // Users newly mentioned by the edit get notified too
+    if (updatedMurmur && updatedMurmur !== murmur) {
+      await PublishService.notifyMentions(updatedMurmur, MentionService.getMentionedUserIds(murmur));
+    }
+
+    return res.json({
       success: true,
-      message: 'Murmur created successfully',
+      message: 'Murmur updated successfully',
       data: {
-        murmur: {
-          ...murmur,
-          likesCount: 0,
-          isLikedByUser: false,
+        murmur: updatedMurmur && await HydrationService.hydrateOne(updatedMurmur, userId),
+      },
+    });
+  } catch (error) {
+    console.error('Update murmur error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update murmur',
+    });
+  }
+});
+
+// Get edit history for a murmur
+router.get('/:id/history', optionalAuth, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const murmur = await MurmurService.findById(murmurId);
+    if (!murmur || !await MurmurService.isVisibleTo(murmur.id, req.user?.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    const revisions = await MurmurService.getRevisions(murmurId);
+
+    return res.json({
+      success: true,
+      data: {
+        current: {
+          content: murmur.content,
+          editedAt: murmur.editedAt,
+          editCount: murmur.editCount,
         },
+        revisions,
       },
     });
   } catch (error) {
-    console.error('Create murmur error:', error);
+    console.error('Get murmur history error:', error);
     return res.status(500).json({
       success: false,
-      error: 'Failed to create murmur',
+      error: 'Failed to fetch murmur history',
     });
   }
 });
@@ -440,7 +635,7 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Respon
       });
     }
     
-    const userId = req.user.id;
+    const userId = req.user!.id;
 
     const murmur = await MurmurService.findById(murmurId);
     if (!murmur || murmur.userId !== userId) {
@@ -450,19 +645,7 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Respon
       });
     }
 
-    // Soft delete
-    await MurmurService.softDelete(murmurId);
-
-    // Update user's murmur count only if it's not a reply
-    if (!murmur.replyToId) {
-      await UserService.updateCounts(userId, { murmursCount: -1 });
-    } else {
-      // If it's a reply, decrement the parent murmur's reply count
-      await MurmurService.decrementRepliesCount(murmur.replyToId);
-    }
-
-    // Delete associated likes
-    await LikeService.deleteAllByMurmur(murmurId);
+    await PublishService.unpublish(murmur);
 
     return res.json({
       success: true,
@@ -477,12 +660,12 @@ router.delete('/:id', authenticate, async (req: AuthRequest, res: express.Respon
   }
 });
 
-// Get replies for a murmur
-router.get('/:id/replies', optionalAuth, [
-  query('page')
+// Get the whole conversation around a murmur: ancestors up to the root and a tree of replies
+router.get('/:id/thread', optionalAuth, [
+  query('depth')
     .optional()
-    .isInt({ min: 1 })
-    .withMessage('Page must be a positive integer'),
+    .isInt({ min: 1, max: 10 })
+    .withMessage('Depth must be between 1 and 10'),
   query('limit')
     .optional()
     .isInt({ min: 1, max: 50 })
@@ -497,56 +680,34 @@ router.get('/:id/replies', optionalAuth, [
       });
     }
 
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const offset = (page - 1) * limit;
-    const userId = req.user?.id;
-
-    // Get replies
-    const { replies, totalCount } = await MurmurService.getReplies(murmurId, limit, offset);
-
-    // Get like counts and user's likes for each reply
-    const replyIds = replies.map((r: any) => r.id);
-    const likeCounts = await Promise.all(
-      replyIds.map((id: string) => LikeService.getLikeCount(id))
-    );
-
-    const userLikes = userId ? await Promise.all(
-      replyIds.map((id: string) => LikeService.isUserLiked(userId, id))
-    ) : replyIds.map(() => false);
+    const thread = await ThreadService.getThread(murmurId, {
+      depth: parseInt(req.query.depth as string) || 3,
+      limit: parseInt(req.query.limit as string) || 10,
+      viewerId: req.user?.id,
+    });
 
-    // Format response
-    const formattedReplies = replies.map((reply: any, index: number) => ({
-      ...reply,
-      likesCount: likeCounts[index],
-      isLikedByUser: userLikes[index],
-    }));
+    if (!thread) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
 
     return res.json({
       success: true,
-      data: {
-        replies: formattedReplies,
-        pagination: {
-          page,
-          limit,
-          totalCount,
-          totalPages: Math.ceil(totalCount / limit),
-          hasNextPage: page * limit < totalCount,
-          hasPreviousPage: page > 1,
-        },
-      },
+      data: thread,
     });
   } catch (error) {
-    console.error('Get replies error:', error);
+    console.error('Get thread error:', error);
     return res.status(500).json({
       success: false,
-      error: 'Failed to fetch replies',
+      error: 'Failed to fetch thread',
     });
   }
 });
 
-// Like/unlike murmur
-router.post('/:id/like', authenticate, async (req: AuthRequest, res: express.Response) => {
+// Get replies for a murmur
+router.get('/:id/replies', optionalAuth, paginationValidation, handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
   try {
     const murmurId = req.params.id;
     if (!murmurId) {
@@ -555,36 +716,240 @@ router.post('/:id/like', authenticate, async (req: AuthRequest, res: express.Res
         error: 'Murmur ID is required',
       });
     }
-    
-    const userId = req.user.id;
 
-    // Check if murmur exists
-    const murmur = await MurmurService.findById(murmurId);
-    if (!murmur) {
+    const pagination = getPaginationParams(req);
+    const userId = req.user?.id;
+
+    if (!await MurmurService.isVisibleTo(murmurId, userId)) {
       return res.status(404).json({
         success: false,
         error: 'Murmur not found',
       });
     }
 
-    // Check if already liked
+    // Get replies
+    const { replies, ...pageInfo } = await MurmurService.getReplies(murmurId, {
+      ...toPageOptions(pagination),
+      viewerId: userId,
+    });
+
+    // Fill in the viewer's likes, remurmurs and follows for the whole page
+    const formattedReplies = await HydrationService.hydrate(replies, userId);
+
+    return res.json({
+      success: true,
+      data: {
+        replies: formattedReplies,
+        pagination: buildPagination(pagination, pageInfo),
+      },
+    });
+  } catch (error) {
+    console.error('Get replies error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch replies',
+    });
+  }
+});
+
+// Vote in a murmur's poll; each user gets one vote and it can't be changed
+router.post('/:id/poll/vote', authenticate, [
+  body('optionId')
+    .isString()
+    .withMessage('Option ID is required'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const { optionId } = req.body;
+    const userId = req.user!.id;
+
+    const murmur = await MurmurService.findById(murmurId);
+    if (!murmur || !await MurmurService.isVisibleTo(murmur.id, userId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    const poll = murmur.poll;
+    if (!poll) {
+      return res.status(404).json({
+        success: false,
+        error: 'This murmur has no poll',
+      });
+    }
+
+    if (!poll.options.some(option => option.id === optionId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid poll option',
+      });
+    }
+
+    const updatedPoll = await PollService.vote(poll.id, optionId, userId);
+    if (!updatedPoll) {
+      const hasEnded = poll.endsAt.getTime() <= Date.now();
+      return res.status(409).json({
+        success: false,
+        error: hasEnded ? 'This poll has ended' : 'You have already voted in this poll',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Vote recorded',
+      data: {
+        poll: PollService.toView(updatedPoll, optionId),
+      },
+    });
+  } catch (error) {
+    console.error('Poll vote error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to record vote',
+    });
+  }
+});
+
+// Report a murmur to the moderators. Reporting a plain remurmur reports the
+// murmur it shares.
+router.post('/:id/report', authenticate, [
+  body('reason')
+    .isIn(REPORT_REASONS)
+    .withMessage(`Reason must be one of: ${REPORT_REASONS.join(', ')}`),
+  body('details')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Details must be at most 500 characters'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+
+    const target = await MurmurService.findById(murmurId);
+    if (!target || !await MurmurService.isVisibleTo(target.id, userId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    const murmur = target.remurmurOfId ? target.remurmurOf : target;
+    if (!murmur || murmur.isDeleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    if (murmur.userId === userId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot report your own murmur',
+      });
+    }
+
+    const { reason, details } = req.body;
+    const report = await ModerationService.report(
+      userId,
+      { type: 'murmur', murmurId: murmur.id, userId: murmur.userId },
+      { reason, details }
+    );
+    if (!report) {
+      return res.status(409).json({
+        success: false,
+        error: 'You have already reported this murmur',
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'Murmur reported successfully',
+      data: {
+        report,
+      },
+    });
+  } catch (error) {
+    console.error('Report murmur error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to report murmur',
+    });
+  }
+});
+
+// Like/unlike murmur
+router.post('/:id/like', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+    
+    const userId = req.user!.id;
+
+    // Check if murmur exists
+    const murmur = await MurmurService.findById(murmurId);
+    if (!murmur) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    // Check if already liked
     const isLiked = await LikeService.isUserLiked(userId, murmurId);
 
     if (isLiked) {
       // Unlike
       await LikeService.unlike(userId, murmurId);
+      await MurmurService.decrementLikesCount(murmurId);
 
       return res.json({
         success: true,
         message: 'Murmur unliked',
         data: {
           isLiked: false,
-          likesCount: Math.max(0, await LikeService.getLikeCount(murmurId)),
+          likesCount: Math.max(0, murmur.likesCount - 1),
         },
       });
     } else {
+      if (await BlockService.isBlockedEitherWay(userId, murmur.userId)) {
+        return res.status(403).json({
+          success: false,
+          error: 'You cannot like this murmur',
+        });
+      }
+
+      if (!await MurmurService.isVisibleTo(murmur.id, userId)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Murmur not found',
+        });
+      }
+
       // Like
       await LikeService.like(userId, murmurId);
+      await MurmurService.incrementLikesCount(murmurId);
 
       // Create notification for the murmur author
       await NotificationService.create('like', murmur.userId, userId, murmurId);
@@ -594,7 +959,7 @@ router.post('/:id/like', authenticate, async (req: AuthRequest, res: express.Res
         message: 'Murmur liked',
         data: {
           isLiked: true,
-          likesCount: await LikeService.getLikeCount(murmurId),
+          likesCount: murmur.likesCount + 1,
         },
       });
     }
@@ -607,4 +972,259 @@ router.post('/:id/like', authenticate, async (req: AuthRequest, res: express.Res
   }
 });
 
+// Remurmur a murmur; with content this becomes a quote-remurmur
+router.post('/:id/remurmur', authenticate, requireVerifiedEmail, [
+  body('content')
+    .optional()
+    .isLength({ min: 1, max: 280 })
+    .withMessage('Content must be between 1 and 280 characters')
+    .trim(),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const { content } = req.body;
+    const userId = req.user!.id;
+
+    const target = await MurmurService.findById(murmurId);
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    // Remurmuring a remurmur targets the original murmur
+    const original = target.remurmurOfId ? target.remurmurOf : target;
+    if (!original || original.isDeleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    if (await BlockService.isBlockedEitherWay(userId, original.userId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You cannot remurmur this murmur',
+      });
+    }
+
+    if (!await MurmurService.isVisibleTo(original.id, userId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    // Sharing would show a private account's murmur to people it didn't approve
+    if (original.user?.isPrivate && original.userId !== userId) {
+      return res.status(403).json({
+        success: false,
+        error: 'Murmurs from private accounts cannot be remurmured',
+      });
+    }
+
+    let murmur;
+    if (content) {
+      murmur = await MurmurService.create(userId, content, undefined, original.id);
+      await UserService.updateCounts(userId, { murmursCount: 1 });
+      await PublishService.notifyMentions(murmur);
+    } else {
+      const existingRemurmur = await MurmurService.findRemurmur(userId, original.id);
+      if (existingRemurmur) {
+        return res.status(409).json({
+          success: false,
+          error: 'Already remurmured this murmur',
+        });
+      }
+
+      try {
+        murmur = await MurmurService.remurmur(userId, original.id);
+      } catch (error) {
+        // A concurrent request remurmured it first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return res.status(409).json({
+            success: false,
+            error: 'Already remurmured this murmur',
+          });
+        }
+        throw error;
+      }
+    }
+
+    await MurmurService.incrementRetweetsCount(original.id);
+    await PublishService.publishToFollowers(murmur);
+
+    // Create notification for the original murmur author
+    await NotificationService.create('remurmur', original.userId, userId, original.id);
+
+    return res.status(201).json({
+      success: true,
+      message: content ? 'Murmur quoted successfully' : 'Murmur remurmured successfully',
+      data: {
+        murmur: await HydrationService.hydrateOne(murmur, userId),
+        retweetsCount: original.retweetsCount + 1,
+      },
+    });
+  } catch (error) {
+    console.error('Remurmur error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remurmur',
+    });
+  }
+});
+
+// Undo a plain remurmur
+router.delete('/:id/remurmur', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+
+    const target = await MurmurService.findById(murmurId);
+    if (!target) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    const originalId = target.remurmurOfId || target.id;
+    const existingRemurmur = await MurmurService.findRemurmur(userId, originalId);
+    if (!existingRemurmur) {
+      return res.status(409).json({
+        success: false,
+        error: 'Not remurmured',
+      });
+    }
+
+    await MurmurService.undoRemurmur(userId, originalId);
+    await MurmurService.decrementRetweetsCount(originalId);
+
+    return res.json({
+      success: true,
+      message: 'Remurmur removed',
+    });
+  } catch (error) {
+    console.error('Undo remurmur error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to undo remurmur',
+    });
+  }
+});
+
+// Bookmark a murmur (private: the author is not notified)
+router.post('/:id/bookmark', authenticate, [
+  body('folderId')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Folder ID must be a string'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const userId = req.user!.id;
+    const folderId: string | undefined = req.body.folderId ?? undefined;
+
+    const murmur = await MurmurService.findById(murmurId);
+    if (!murmur || !await MurmurService.isVisibleTo(murmur.id, userId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Murmur not found',
+      });
+    }
+
+    if (folderId) {
+      const folder = await BookmarkFolderService.findById(folderId);
+      if (!folder || folder.userId !== userId) {
+        return res.status(404).json({
+          success: false,
+          error: 'Folder not found',
+        });
+      }
+    }
+
+    const existingBookmark = await BookmarkService.findByUserAndMurmur(userId, murmurId);
+    if (existingBookmark) {
+      return res.status(409).json({
+        success: false,
+        error: 'Already bookmarked this murmur',
+      });
+    }
+
+    const bookmark = await BookmarkService.create(userId, murmurId, folderId);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Murmur bookmarked',
+      data: {
+        bookmark,
+        isBookmarked: true,
+      },
+    });
+  } catch (error) {
+    console.error('Bookmark murmur error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to bookmark murmur',
+    });
+  }
+});
+
+// Remove a bookmark
+router.delete('/:id/bookmark', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const murmurId = req.params.id;
+    if (!murmurId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Murmur ID is required',
+      });
+    }
+
+    const removed = await BookmarkService.delete(req.user!.id, murmurId);
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        error: 'Not bookmarked',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Bookmark removed',
+      data: {
+        isBookmarked: false,
+      },
+    });
+  } catch (error) {
+    console.error('Remove bookmark error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to remove bookmark',
+    });
+  }
+});
+
 export default router;
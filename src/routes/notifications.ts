@@ -1,13 +1,20 @@
 import { Router, Response } from 'express';
-import { AuthRequest, authenticate } from '../middleware/auth';
+import { AuthRequest, authenticate, authenticateStream } from '../middleware/auth';
 import NotificationService from '../models/Notification';
+import BlockService from '../models/Block';
+import SessionService from '../models/Session';
+import UserService from '../models/User';
+import { getEventBus, channels, RealtimeEvent } from '../lib/events';
 
 const router = Router();
 
+// Keeps proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
 // Get user notifications
 router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user.id;
+    const userId = req.user!.id;
     const limit = parseInt(req.query.limit as string) || 20;
     const cursor = req.query.cursor as string;
 
@@ -35,7 +42,7 @@ router.get('/', authenticate, async (req: AuthRequest, res: Response) => {
 // Get unread count
 router.get('/unread-count', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user.id;
+    const userId = req.user!.id;
     const count = await NotificationService.getUnreadCount(userId);
 
     return res.json({
@@ -51,10 +58,84 @@ router.get('/unread-count', authenticate, async (req: AuthRequest, res: Response
   }
 });
 
+// Real-time event stream (Server-Sent Events): notifications, new murmurs from
+// followed users and murmur count changes. Count changes of users blocked either
+// way are dropped. Every heartbeat refreshes the block list and closes the stream
+// once the session has ended or the user was deactivated.
+router.get('/stream', authenticateStream, async (req: AuthRequest, res: Response) => {
+  const userId = req.user!.id;
+  const sessionId = req.sessionId!;
+  const eventBus = getEventBus();
+
+  let hiddenUserIds = new Set<string>();
+  const refreshHiddenUserIds = async () => {
+    try {
+      hiddenUserIds = new Set(await BlockService.getHiddenUserIds(userId));
+    } catch (error) {
+      console.error('Refresh stream blocks error:', error);
+    }
+  };
+  await refreshHiddenUserIds();
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable nginx response buffering
+  });
+  res.flushHeaders();
+
+  const send = (event: RealtimeEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  };
+
+  const sendMurmurEvent = (event: RealtimeEvent) => {
+    if (!hiddenUserIds.has((event.data as { userId: string }).userId)) send(event);
+  };
+
+  const unsubscribers = [
+    eventBus.subscribe(channels.user(userId), send),
+    eventBus.subscribe(channels.murmurs, sendMurmurEvent),
+  ];
+
+  let heartbeat: NodeJS.Timeout | undefined;
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+  };
+
+  const isStillAuthorized = async (): Promise<boolean> => {
+    try {
+      if (!await SessionService.isActive(sessionId, userId)) return false;
+      const user = await UserService.findById(userId);
+      return !!user && user.isActive;
+    } catch (error) {
+      // Keep the stream on a passing database error; the next heartbeat checks again
+      console.error('Check stream session error:', error);
+      return true;
+    }
+  };
+
+  heartbeat = setInterval(async () => {
+    if (!await isStillAuthorized()) {
+      close();
+      res.end();
+      return;
+    }
+
+    res.write(': heartbeat\n\n');
+    await refreshHiddenUserIds();
+  }, HEARTBEAT_INTERVAL_MS);
+
+  send({ type: 'ready', data: { userId } });
+
+  req.on('close', close);
+});
+
 // Mark notification as read
 router.put('/:id/read', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user.id;
+    const userId = req.user!.id;
     const notificationId = req.params.id;
 
     if (!notificationId) {
@@ -82,7 +163,7 @@ router.put('/:id/read', authenticate, async (req: AuthRequest, res: Response) =>
 // Mark all notifications as read
 router.put('/read-all', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user.id;
+    const userId = req.user!.id;
 
     await NotificationService.markAllAsRead(userId);
 
@@ -102,7 +183,7 @@ router.put('/read-all', authenticate, async (req: AuthRequest, res: Response) =>
 // Delete notification
 router.delete('/:id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const userId = req.user.id;
+    const userId = req.user!.id;
     const notificationId = req.params.id;
 
     if (!notificationId) {
@@ -1,8 +1,12 @@
 import express from 'express';
-import { query, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import UserService from '../models/User';
 import FollowService from '../models/Follow';
+import FollowRequestService from '../models/FollowRequest';
 import NotificationService from '../models/Notification';
+import BlockService from '../models/Block';
+import MuteService from '../models/Mute';
+import ModerationService, { REPORT_REASONS } from '../models/Moderation';
 import { authenticate, optionalAuth, AuthRequest } from '../middleware/auth';
 
 const router = express.Router();
@@ -20,6 +24,208 @@ const handleValidationErrors = (req: express.Request, res: express.Response, nex
   return next();
 };
 
+// Get users blocked by the current user
+router.get('/me/blocked', authenticate, [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const { users, totalCount } = await BlockService.getBlockedUsers(req.user!.id, limit, skip);
+
+    return res.json({
+      success: true,
+      data: {
+        users,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+          hasNextPage: page * limit < totalCount,
+          hasPreviousPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get blocked users error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch blocked users',
+    });
+  }
+});
+
+// Get users muted by the current user
+router.get('/me/muted', authenticate, [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const { users, totalCount } = await MuteService.getMutedUsers(req.user!.id, limit, skip);
+
+    return res.json({
+      success: true,
+      data: {
+        users,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+          hasNextPage: page * limit < totalCount,
+          hasPreviousPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get muted users error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch muted users',
+    });
+  }
+});
+
+// Get pending follow requests for the current user
+router.get('/me/follow-requests', authenticate, [
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Page must be a positive integer'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const { requests, totalCount } = await FollowRequestService.getIncoming(req.user!.id, limit, skip);
+
+    return res.json({
+      success: true,
+      data: {
+        requests,
+        pagination: {
+          page,
+          limit,
+          totalCount,
+          totalPages: Math.ceil(totalCount / limit),
+          hasNextPage: page * limit < totalCount,
+          hasPreviousPage: page > 1,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get follow requests error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to fetch follow requests',
+    });
+  }
+});
+
+// Accept a follow request
+router.post('/me/follow-requests/:userId/accept', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const requesterId = req.params.userId;
+    if (!requesterId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const currentUserId = req.user!.id;
+
+    const request = await FollowRequestService.findByRequesterAndTarget(requesterId, currentUserId);
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow request not found',
+      });
+    }
+
+    const followed = await FollowRequestService.accept(requesterId, currentUserId);
+
+    if (followed) {
+      // Update follower/following counts
+      await Promise.all([
+        UserService.updateCounts(requesterId, { followingCount: 1 }),
+        UserService.updateCounts(currentUserId, { followersCount: 1 }),
+      ]);
+
+      // Let the requester know they can now see the account's murmurs
+      await NotificationService.create('follow_accept', requesterId, currentUserId);
+    }
+
+    return res.json({
+      success: true,
+      message: 'Follow request accepted',
+    });
+  } catch (error) {
+    console.error('Accept follow request error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to accept follow request',
+    });
+  }
+});
+
+// Reject a follow request
+router.post('/me/follow-requests/:userId/reject', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const requesterId = req.params.userId;
+    if (!requesterId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const rejected = await FollowRequestService.delete(requesterId, req.user!.id);
+    if (!rejected) {
+      return res.status(404).json({
+        success: false,
+        error: 'Follow request not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Follow request rejected',
+    });
+  } catch (error) {
+    console.error('Reject follow request error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to reject follow request',
+    });
+  }
+});
+
 // Get user profile
 router.get('/:userId', optionalAuth, async (req: AuthRequest, res: express.Response) => {
   try {
@@ -32,18 +238,29 @@ router.get('/:userId', optionalAuth, async (req: AuthRequest, res: express.Respo
     }
 
     const user = await UserService.findById(userId);
-    if (!user) {
+    if (!user || !user.isActive) {
       return res.status(404).json({
         success: false,
         error: 'User not found',
       });
     }
 
-    // Check if current user follows this user
+    // Check if current user follows (or asked to follow), blocks or mutes this user
     let isFollowing = false;
+    let isRequested = false;
+    let isBlocked = false;
+    let isMuted = false;
     if (req.user) {
-      const follow = await FollowService.findByFollowerAndFollowing(req.user.id, userId);
+      const [follow, request, blocked, muted] = await Promise.all([
+        FollowService.findByFollowerAndFollowing(req.user.id, userId),
+        FollowRequestService.findByRequesterAndTarget(req.user.id, userId),
+        BlockService.isBlocked(req.user.id, userId),
+        MuteService.isMuted(req.user.id, userId),
+      ]);
       isFollowing = !!follow;
+      isRequested = !!request;
+      isBlocked = blocked;
+      isMuted = muted;
     }
 
     return res.json({
@@ -54,11 +271,16 @@ router.get('/:userId', optionalAuth, async (req: AuthRequest, res: express.Respo
           username: user.username,
           displayName: user.displayName,
           avatar: user.avatar,
+          banner: user.banner,
           bio: user.bio,
           followersCount: user.followersCount,
           followingCount: user.followingCount,
           murmursCount: user.murmursCount,
+          isPrivate: user.isPrivate,
           isFollowing,
+          isRequested,
+          isBlocked,
+          isMuted,
           isOwnProfile: req.user?.id === userId,
         },
       },
@@ -83,7 +305,7 @@ router.post('/:userId/follow', authenticate, async (req: AuthRequest, res: expre
       });
     }
     
-    const currentUserId = req.user.id;
+    const currentUserId = req.user!.id;
 
     // Check if target user exists
     const targetUser = await UserService.findById(targetUserId);
@@ -94,6 +316,14 @@ router.post('/:userId/follow', authenticate, async (req: AuthRequest, res: expre
       });
     }
 
+    // Blocks stop follows in either direction
+    if (await BlockService.isBlockedEitherWay(currentUserId, targetUserId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'You cannot follow this user',
+      });
+    }
+
     // Check if already following
     const existingFollow = await FollowService.findByFollowerAndFollowing(currentUserId, targetUserId);
 
@@ -104,6 +334,29 @@ router.post('/:userId/follow', authenticate, async (req: AuthRequest, res: expre
       });
     }
 
+    // Private accounts approve their followers, so ask instead
+    if (targetUser.isPrivate) {
+      if (await FollowRequestService.findByRequesterAndTarget(currentUserId, targetUserId)) {
+        return res.status(409).json({
+          success: false,
+          error: 'Follow request already sent',
+        });
+      }
+
+      await FollowRequestService.create(currentUserId, targetUserId);
+      await NotificationService.create('follow_request', targetUserId, currentUserId);
+
+      return res.json({
+        success: true,
+        message: 'Follow request sent',
+        data: {
+          isFollowing: false,
+          isRequested: true,
+          followersCount: targetUser.followersCount,
+        },
+      });
+    }
+
     // Create follow relationship
     await FollowService.create(currentUserId, targetUserId);
 
@@ -144,7 +397,7 @@ router.delete('/:userId/follow', authenticate, async (req: AuthRequest, res: exp
       });
     }
     
-    const currentUserId = req.user.id;
+    const currentUserId = req.user!.id;
 
     // Check if target user exists
     const targetUser = await UserService.findById(targetUserId);
@@ -158,6 +411,19 @@ router.delete('/:userId/follow', authenticate, async (req: AuthRequest, res: exp
     // Check if following
     const follow = await FollowService.findByFollowerAndFollowing(currentUserId, targetUserId);
 
+    // Unfollowing a private account that hasn't answered yet withdraws the request
+    if (!follow && await FollowRequestService.delete(currentUserId, targetUserId)) {
+      return res.json({
+        success: true,
+        message: 'Follow request withdrawn',
+        data: {
+          isFollowing: false,
+          isRequested: false,
+          followersCount: targetUser.followersCount,
+        },
+      });
+    }
+
     if (!follow) {
       return res.status(409).json({
         success: false,
@@ -191,6 +457,266 @@ router.delete('/:userId/follow', authenticate, async (req: AuthRequest, res: exp
   }
 });
 
+// Block user
+router.post('/:userId/block', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const targetUserId = req.params.userId;
+    if (!targetUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const currentUserId = req.user!.id;
+
+    if (targetUserId === currentUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot block yourself',
+      });
+    }
+
+    // Check if target user exists
+    const targetUser = await UserService.findById(targetUserId);
+    if (!targetUser) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (await BlockService.isBlocked(currentUserId, targetUserId)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Already blocked this user',
+      });
+    }
+
+    await BlockService.create(currentUserId, targetUserId);
+
+    // A block ends follows and pending follow requests in both directions
+    const { userFollowedOther, otherFollowedUser } = await FollowService.removeFollowsBetween(currentUserId, targetUserId);
+    await FollowRequestService.deleteBetween(currentUserId, targetUserId);
+
+    if (userFollowedOther) {
+      await Promise.all([
+        UserService.updateCounts(currentUserId, { followingCount: -1 }),
+        UserService.updateCounts(targetUserId, { followersCount: -1 }),
+      ]);
+    }
+
+    if (otherFollowedUser) {
+      await Promise.all([
+        UserService.updateCounts(targetUserId, { followingCount: -1 }),
+        UserService.updateCounts(currentUserId, { followersCount: -1 }),
+      ]);
+    }
+
+    return res.json({
+      success: true,
+      message: 'User blocked successfully',
+      data: {
+        isBlocked: true,
+        isFollowing: false,
+      },
+    });
+  } catch (error) {
+    console.error('Block user error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to block user',
+    });
+  }
+});
+
+// Unblock user
+router.delete('/:userId/block', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const targetUserId = req.params.userId;
+    if (!targetUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const unblocked = await BlockService.delete(req.user!.id, targetUserId);
+    if (!unblocked) {
+      return res.status(409).json({
+        success: false,
+        error: 'Not blocking this user',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'User unblocked successfully',
+      data: {
+        isBlocked: false,
+      },
+    });
+  } catch (error) {
+    console.error('Unblock user error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to unblock user',
+    });
+  }
+});
+
+// Mute user
+router.post('/:userId/mute', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const targetUserId = req.params.userId;
+    if (!targetUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const currentUserId = req.user!.id;
+
+    if (targetUserId === currentUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot mute yourself',
+      });
+    }
+
+    // Check if target user exists
+    const targetUser = await UserService.findById(targetUserId);
+    if (!targetUser) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    if (await MuteService.isMuted(currentUserId, targetUserId)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Already muted this user',
+      });
+    }
+
+    await MuteService.create(currentUserId, targetUserId);
+
+    return res.json({
+      success: true,
+      message: 'User muted successfully',
+      data: {
+        isMuted: true,
+      },
+    });
+  } catch (error) {
+    console.error('Mute user error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to mute user',
+    });
+  }
+});
+
+// Report a user to the moderators
+router.post('/:userId/report', authenticate, [
+  body('reason')
+    .isIn(REPORT_REASONS)
+    .withMessage(`Reason must be one of: ${REPORT_REASONS.join(', ')}`),
+  body('details')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Details must be at most 500 characters'),
+], handleValidationErrors, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const targetUserId = req.params.userId;
+    if (!targetUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const currentUserId = req.user!.id;
+
+    if (targetUserId === currentUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot report yourself',
+      });
+    }
+
+    const targetUser = await UserService.findById(targetUserId);
+    if (!targetUser || !targetUser.isActive) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+    }
+
+    const { reason, details } = req.body;
+    const report = await ModerationService.report(currentUserId, { type: 'user', userId: targetUserId }, { reason, details });
+    if (!report) {
+      return res.status(409).json({
+        success: false,
+        error: 'You have already reported this user',
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'User reported successfully',
+      data: {
+        report,
+      },
+    });
+  } catch (error) {
+    console.error('Report user error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to report user',
+    });
+  }
+});
+
+// Unmute user
+router.delete('/:userId/mute', authenticate, async (req: AuthRequest, res: express.Response) => {
+  try {
+    const targetUserId = req.params.userId;
+    if (!targetUserId) {
+      return res.status(400).json({
+        success: false,
+        error: 'User ID is required',
+      });
+    }
+
+    const unmuted = await MuteService.delete(req.user!.id, targetUserId);
+    if (!unmuted) {
+      return res.status(409).json({
+        success: false,
+        error: 'Not muting this user',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'User unmuted successfully',
+      data: {
+        isMuted: false,
+      },
+    });
+  } catch (error) {
+    console.error('Unmute user error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to unmute user',
+    });
+  }
+});
+
 // Get user's followers
 router.get('/:userId/followers', [
   query('page')
@@ -333,22 +859,8 @@ router.get('/search/:query', [
     const limit = parseInt(req.query.limit as string) || 20;
     const skip = (page - 1) * limit;
 
-    // Search users by username or display name
-    const users = await UserService.search(query, limit, skip);
-
-    // Get total count for pagination
-    const { PrismaClient } = require('@prisma/client');
-    const prisma = new PrismaClient();
-    
-    const totalCount = await prisma.user.count({
-      where: {
-        isActive: true,
-        OR: [
-          { username: { contains: query, mode: 'insensitive' } },
-          { displayName: { contains: query, mode: 'insensitive' } },
-        ],
-      },
-    });
+    // Search users by username or display name, most relevant first
+    const { users, totalCount } = await UserService.search(query, limit, skip);
 
     return res.json({
       success: true,